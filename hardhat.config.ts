@@ -54,6 +54,14 @@ const config: HardhatUserConfig = {
       url: process.env.MAINNET_RPC_URL || RPC_URL,
       timeout: 20 * 60 * 1000, // 20 minutes
     },
+    "sepolia-fork": {
+      url: process.env.SEPOLIA_RPC_URL || RPC_URL,
+      timeout: 20 * 60 * 1000, // 20 minutes
+    },
+    "holesky-fork": {
+      url: process.env.HOLESKY_RPC_URL || RPC_URL,
+      timeout: 20 * 60 * 1000, // 20 minutes
+    },
     "hardhat": {
       // setting base fee to 0 to avoid extra calculations doesn't work :(
       // minimal base fee is 1 for EIP-1559
@@ -0,0 +1,385 @@
+import { BytesLike, computeHmac, concat, dataSlice, getBytes, hexlify, sha256, toBeHex, zeroPadBytes } from "ethers";
+
+import { bls12_381 as bls } from "@noble/curves/bls12-381";
+
+import { PUBKEY_LENGTH, SIGNATURE_LENGTH } from "./constants";
+import { de0x } from "./string";
+import { ether } from "./units";
+
+export type DepositData = {
+  pubkey: string;
+  withdrawalCredentials: string;
+  amount: bigint; // wei
+  signature: string;
+  depositMessageRoot: string;
+  depositDataRoot: string;
+  forkVersion: string;
+};
+
+export type DepositDataOptions = {
+  seed: Uint8Array | string; // at least 32 bytes
+  withdrawalCredentials: string;
+  forkVersion: string; // GENESIS_FORK_VERSION of the chain, e.g. 0x00000000 for mainnet
+  amount: bigint;
+  startIndex: number;
+};
+
+/**
+ * Entry of the `deposit_data-*.json` file of the staking-deposit-cli, hex values go without 0x and the amount is in gwei.
+ */
+export type DepositDataJsonEntry = {
+  pubkey: string;
+  withdrawal_credentials: string;
+  amount: number;
+  signature: string;
+  deposit_message_root: string;
+  deposit_data_root: string;
+  fork_version: string;
+  network_name?: string;
+  deposit_cli_version?: string;
+};
+
+export type DepositDataValidationOptions = {
+  withdrawalCredentials: string;
+  forkVersion: string;
+  amount: bigint;
+  verifySignatures: boolean;
+};
+
+// https://github.com/ethereum/consensus-specs/blob/dev/specs/phase0/beacon-chain.md#domain-types
+const DOMAIN_DEPOSIT = "0x03000000";
+const BLS_POP_DST = "BLS_SIG_BLS12381G2_XMD:SHA-256_SSWU_RO_POP_";
+const ONE_GWEI = 10n ** 9n;
+const WITHDRAWAL_CREDENTIALS_LENGTH = 32;
+const DEPOSIT_CLI_VERSION = "2.7.0";
+
+// Network names the staking-deposit-cli writes for the known genesis fork versions
+const NETWORK_NAMES: Record<string, string> = {
+  "0x00000000": "mainnet",
+  "0x00001020": "goerli",
+  "0x90000069": "sepolia",
+  "0x01017000": "holesky",
+};
+
+// https://eips.ethereum.org/EIPS/eip-2333
+const KEYGEN_SALT = new TextEncoder().encode("BLS-SIG-KEYGEN-SALT-");
+const LAMPORT_CHUNKS = 255;
+const HASH_LENGTH = 32;
+
+// https://eips.ethereum.org/EIPS/eip-2334, m/12381/3600/i/0/0 is the validator signing key
+const VALIDATOR_KEY_PATH = (index: number) => [12381, 3600, index, 0, 0];
+
+const ZERO_CHUNK = new Uint8Array(32);
+
+const i2osp = (value: bigint | number, length: number) => getBytes(toBeHex(value, length));
+
+const hkdfExtract = (salt: BytesLike, ikm: BytesLike) => getBytes(computeHmac("sha256", salt, ikm));
+
+const hkdfExpand = (prk: BytesLike, info: BytesLike, length: number) => {
+  const blocks: string[] = [];
+  let previous = "0x";
+  for (let i = 1; blocks.length * HASH_LENGTH < length; i++) {
+    previous = computeHmac("sha256", prk, concat([previous, info, i2osp(i, 1)]));
+    blocks.push(previous);
+  }
+  return getBytes(concat(blocks)).slice(0, length);
+};
+
+const hkdfModR = (ikm: BytesLike) => {
+  let salt: BytesLike = KEYGEN_SALT;
+  let sk = 0n;
+  while (sk === 0n) {
+    salt = sha256(salt);
+    const prk = hkdfExtract(salt, concat([ikm, i2osp(0, 1)]));
+    const okm = hkdfExpand(prk, i2osp(48, 2), 48);
+    sk = BigInt(hexlify(okm)) % bls.params.r;
+  }
+  return sk;
+};
+
+const ikmToLamportSK = (ikm: Uint8Array, salt: Uint8Array) => {
+  const okm = hkdfExpand(hkdfExtract(salt, ikm), "0x", HASH_LENGTH * LAMPORT_CHUNKS);
+  return Array.from({ length: LAMPORT_CHUNKS }, (_, i) => okm.slice(i * HASH_LENGTH, (i + 1) * HASH_LENGTH));
+};
+
+const parentSKToLamportPK = (parentSK: bigint, index: number) => {
+  const salt = i2osp(index, 4);
+  const ikm = i2osp(parentSK, 32);
+  const notIkm = ikm.map((byte) => byte ^ 0xff);
+
+  const lamportSK = [...ikmToLamportSK(ikm, salt), ...ikmToLamportSK(notIkm, salt)];
+  return sha256(concat(lamportSK.map((chunk) => sha256(chunk))));
+};
+
+/**
+ * EIP-2333 master secret key of the seed.
+ */
+export const deriveMasterSecretKey = (seed: Uint8Array | string) => {
+  const seedBytes = getBytes(seed);
+  if (seedBytes.length < 32) {
+    throw new Error(`Seed must be at least 32 bytes, got ${seedBytes.length}`);
+  }
+  return hkdfModR(seedBytes);
+};
+
+/**
+ * EIP-2333 child secret key of the parent one.
+ */
+export const deriveChildSecretKey = (parentSK: bigint, index: number) => hkdfModR(parentSKToLamportPK(parentSK, index));
+
+/**
+ * EIP-2334 signing key of the validator with the given index, the same as the deposit CLI derives from the seed.
+ */
+export const deriveValidatorSecretKey = (seed: Uint8Array | string, index: number) =>
+  VALIDATOR_KEY_PATH(index).reduce(deriveChildSecretKey, deriveMasterSecretKey(seed));
+
+const toLittleEndian64 = (value: bigint) => zeroPadBytes(getBytes(toBeHex(value, 8)).reverse(), 32);
+
+const hashPair = (left: string | Uint8Array, right: string | Uint8Array) => sha256(concat([left, right]));
+
+const pubkeyRoot = (pubkey: string) => hashPair(pubkey, new Uint8Array(16));
+
+const signatureRoot = (signature: string) =>
+  hashPair(sha256(dataSlice(signature, 0, 64)), hashPair(dataSlice(signature, 64, 96), ZERO_CHUNK));
+
+/**
+ * SSZ root of the DepositMessage, the object signed by the validator key.
+ */
+export const computeDepositMessageRoot = (pubkey: string, withdrawalCredentials: string, amount: bigint) =>
+  hashPair(
+    hashPair(pubkeyRoot(pubkey), withdrawalCredentials),
+    hashPair(toLittleEndian64(amount / ONE_GWEI), ZERO_CHUNK),
+  );
+
+/**
+ * SSZ root of the DepositData, the same as the deposit contract computes and checks against `deposit_data_root`.
+ */
+export const computeDepositDataRoot = (
+  pubkey: string,
+  withdrawalCredentials: string,
+  amount: bigint,
+  signature: string,
+) =>
+  hashPair(
+    hashPair(pubkeyRoot(pubkey), withdrawalCredentials),
+    hashPair(toLittleEndian64(amount / ONE_GWEI), signatureRoot(signature)),
+  );
+
+/**
+ * Deposit signing domain of the fork, the genesis validators root is zero for the deposits.
+ */
+export const computeDepositDomain = (forkVersion: string) => {
+  const forkDataRoot = hashPair(zeroPadBytes(forkVersion, 32), ZERO_CHUNK);
+  return concat([DOMAIN_DEPOSIT, dataSlice(forkDataRoot, 0, 28)]);
+};
+
+/**
+ * Hash the signing root of the deposit message to G2 with the proof of possession scheme tag used by Ethereum.
+ */
+const hashSigningRoot = (depositMessageRoot: string, forkVersion: string) => {
+  const signingRoot = hashPair(depositMessageRoot, computeDepositDomain(forkVersion));
+  const point = bls.G2.hashToCurve(getBytes(signingRoot), { DST: BLS_POP_DST });
+  return bls.G2.ProjectivePoint.fromAffine(point.toAffine());
+};
+
+/**
+ * Sign the deposit of the validator secret key and build the deposit data as the deposit CLI does.
+ */
+export const signDepositData = (
+  secretKey: bigint,
+  withdrawalCredentials: string,
+  forkVersion: string,
+  amount = ether("32"),
+): DepositData => {
+  const pubkey = hexlify(bls.getPublicKey(secretKey));
+  const depositMessageRoot = computeDepositMessageRoot(pubkey, withdrawalCredentials, amount);
+
+  const message = hashSigningRoot(depositMessageRoot, forkVersion);
+  const signature = hexlify(bls.Signature.toRawBytes(bls.sign(message, secretKey)));
+
+  return {
+    pubkey,
+    withdrawalCredentials: hexlify(withdrawalCredentials),
+    amount,
+    signature,
+    depositMessageRoot,
+    depositDataRoot: computeDepositDataRoot(pubkey, withdrawalCredentials, amount, signature),
+    forkVersion: hexlify(forkVersion),
+  };
+};
+
+/**
+ * Check the deposit signature against the pubkey, as the consensus layer does before it adds the validator.
+ */
+export const verifyDepositData = (depositData: DepositData) => {
+  const { pubkey, withdrawalCredentials, amount, signature, forkVersion } = depositData;
+
+  if (getBytes(pubkey).length !== PUBKEY_LENGTH || getBytes(signature).length !== SIGNATURE_LENGTH) {
+    return false;
+  }
+
+  const depositMessageRoot = computeDepositMessageRoot(pubkey, withdrawalCredentials, amount);
+  const message = hashSigningRoot(depositMessageRoot, forkVersion);
+
+  try {
+    return bls.verify(getBytes(signature), message, getBytes(pubkey));
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Generate the deposit data of `count` validators with the keys derived from the seed, starting from `startIndex`.
+ * The same seed and index always give the same keys, so the tests can regenerate them instead of storing.
+ */
+export const generateDepositData = (
+  count: number,
+  {
+    seed,
+    withdrawalCredentials,
+    forkVersion,
+    amount = ether("32"),
+    startIndex = 0,
+  }: Partial<DepositDataOptions> & Pick<DepositDataOptions, "seed" | "withdrawalCredentials" | "forkVersion">,
+) =>
+  Array.from({ length: count }, (_, i) =>
+    signDepositData(deriveValidatorSecretKey(seed, startIndex + i), withdrawalCredentials, forkVersion, amount),
+  );
+
+const en0xHex = (value: string) => (value.startsWith("0x") ? value : `0x${value}`).toLowerCase();
+
+/**
+ * Parse the `deposit_data-*.json` content of the staking-deposit-cli. Only the format is checked here,
+ * use `validateDepositData` to check the values against the protocol.
+ */
+export const parseDepositDataJson = (json: string): DepositData[] => {
+  const entries = JSON.parse(json) as DepositDataJsonEntry[];
+
+  if (!Array.isArray(entries)) {
+    throw new Error("Deposit data must be a JSON array");
+  }
+
+  return entries.map((entry, index) => {
+    const requiredFields = [
+      "pubkey",
+      "withdrawal_credentials",
+      "signature",
+      "deposit_message_root",
+      "deposit_data_root",
+      "fork_version",
+    ] as const;
+
+    for (const field of requiredFields) {
+      if (typeof entry[field] !== "string") {
+        throw new Error(`Deposit data ${index}: missing ${field}`);
+      }
+    }
+
+    if (!Number.isSafeInteger(entry.amount)) {
+      throw new Error(`Deposit data ${index}: invalid amount ${entry.amount}`);
+    }
+
+    return {
+      pubkey: en0xHex(entry.pubkey),
+      withdrawalCredentials: en0xHex(entry.withdrawal_credentials),
+      amount: BigInt(entry.amount) * ONE_GWEI,
+      signature: en0xHex(entry.signature),
+      depositMessageRoot: en0xHex(entry.deposit_message_root),
+      depositDataRoot: en0xHex(entry.deposit_data_root),
+      forkVersion: en0xHex(entry.fork_version),
+    };
+  });
+};
+
+/**
+ * Format the deposit data the same way as the staking-deposit-cli does, so that the file can be used by the tooling.
+ */
+export const formatDepositDataJson = (depositData: DepositData[]) => {
+  const entries: DepositDataJsonEntry[] = depositData.map((data) => {
+    const forkVersion = hexlify(data.forkVersion);
+
+    return {
+      pubkey: de0x(hexlify(data.pubkey)),
+      withdrawal_credentials: de0x(hexlify(data.withdrawalCredentials)),
+      amount: Number(data.amount / ONE_GWEI),
+      signature: de0x(hexlify(data.signature)),
+      deposit_message_root: de0x(hexlify(data.depositMessageRoot)),
+      deposit_data_root: de0x(hexlify(data.depositDataRoot)),
+      fork_version: de0x(forkVersion),
+      network_name: NETWORK_NAMES[forkVersion] ?? "unknown",
+      deposit_cli_version: DEPOSIT_CLI_VERSION,
+    };
+  });
+
+  return JSON.stringify(entries, null, 2);
+};
+
+/**
+ * Check the deposit data before the keys are submitted to the staking module: the key and signature lengths,
+ * the withdrawal credentials, the amount, the fork version, the roots and the duplicate pubkeys.
+ * The signatures are checked too unless `verifySignatures` is off, it takes a while for the large files.
+ */
+export const validateDepositData = (
+  depositData: DepositData[],
+  {
+    withdrawalCredentials,
+    forkVersion,
+    amount = ether("32"),
+    verifySignatures = true,
+  }: Partial<DepositDataValidationOptions> &
+    Pick<DepositDataValidationOptions, "withdrawalCredentials" | "forkVersion">,
+) => {
+  const expectedWithdrawalCredentials = hexlify(withdrawalCredentials);
+  const expectedForkVersion = hexlify(forkVersion);
+  const pubkeys = new Map<string, number>();
+
+  depositData.forEach((data, index) => {
+    const pubkey = hexlify(data.pubkey);
+
+    if (getBytes(pubkey).length !== PUBKEY_LENGTH) {
+      throw new Error(`Deposit data ${index}: invalid pubkey length ${getBytes(pubkey).length}`);
+    }
+
+    if (getBytes(data.signature).length !== SIGNATURE_LENGTH) {
+      throw new Error(`Deposit data ${index}: invalid signature length ${getBytes(data.signature).length}`);
+    }
+
+    if (getBytes(data.withdrawalCredentials).length !== WITHDRAWAL_CREDENTIALS_LENGTH) {
+      throw new Error(`Deposit data ${index}: invalid withdrawal credentials length`);
+    }
+
+    if (hexlify(data.withdrawalCredentials) !== expectedWithdrawalCredentials) {
+      throw new Error(
+        `Deposit data ${index}: withdrawal credentials ${hexlify(data.withdrawalCredentials)} are not ${expectedWithdrawalCredentials}`,
+      );
+    }
+
+    if (data.amount !== amount) {
+      throw new Error(`Deposit data ${index}: amount ${data.amount} is not ${amount}`);
+    }
+
+    if (hexlify(data.forkVersion) !== expectedForkVersion) {
+      throw new Error(`Deposit data ${index}: fork version ${hexlify(data.forkVersion)} is not ${expectedForkVersion}`);
+    }
+
+    const duplicateIndex = pubkeys.get(pubkey);
+    if (duplicateIndex !== undefined) {
+      throw new Error(`Deposit data ${index}: pubkey ${pubkey} is a duplicate of deposit data ${duplicateIndex}`);
+    }
+    pubkeys.set(pubkey, index);
+
+    if (data.depositMessageRoot !== computeDepositMessageRoot(pubkey, data.withdrawalCredentials, data.amount)) {
+      throw new Error(`Deposit data ${index}: deposit message root mismatch`);
+    }
+
+    if (
+      data.depositDataRoot !== computeDepositDataRoot(pubkey, data.withdrawalCredentials, data.amount, data.signature)
+    ) {
+      throw new Error(`Deposit data ${index}: deposit data root mismatch`);
+    }
+
+    if (verifySignatures && !verifyDepositData(data)) {
+      throw new Error(`Deposit data ${index}: invalid signature of ${pubkey}`);
+    }
+  });
+};
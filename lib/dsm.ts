@@ -4,24 +4,16 @@ import { DepositSecurityModule } from "typechain-types";
 
 import { sign, toEip2098 } from "./ec";
 
-class DSMMessage {
-  static MESSAGE_PREFIX: string;
+type DSMMessagePrefixes = Pick<DepositSecurityModule, "ATTEST_MESSAGE_PREFIX" | "PAUSE_MESSAGE_PREFIX">;
 
-  static setMessagePrefix(newMessagePrefix: string) {
-    this.MESSAGE_PREFIX = newMessagePrefix;
-  }
+abstract class DSMMessage {
+  readonly messagePrefix: string;
 
-  get messagePrefix(): string {
-    const messagePrefix = (this.constructor as typeof DSMMessage).MESSAGE_PREFIX;
-    if (messagePrefix === undefined) {
-      throw new Error(`MESSAGE_PREFIX isn't set`);
-    }
-    return messagePrefix;
+  constructor(messagePrefix: string) {
+    this.messagePrefix = messagePrefix;
   }
 
-  get hash(): string {
-    throw new Error("Unimplemented");
-  }
+  abstract get hash(): string;
 
   sign(signerPrivateKey: string): DepositSecurityModule.SignatureStruct {
     return toEip2098(sign(this.hash, signerPrivateKey));
@@ -35,8 +27,15 @@ export class DSMAttestMessage extends DSMMessage {
   stakingModule: number;
   keysOpIndex: number;
 
-  constructor(blockNumber: number, blockHash: string, depositRoot: string, stakingModule: number, keysOpIndex: number) {
-    super();
+  constructor(
+    messagePrefix: string,
+    blockNumber: number,
+    blockHash: string,
+    depositRoot: string,
+    stakingModule: number,
+    keysOpIndex: number,
+  ) {
+    super(messagePrefix);
     this.blockNumber = blockNumber;
     this.blockHash = blockHash;
     this.depositRoot = depositRoot;
@@ -44,6 +43,21 @@ export class DSMAttestMessage extends DSMMessage {
     this.keysOpIndex = keysOpIndex;
   }
 
+  /**
+   * Build the message with the `ATTEST_MESSAGE_PREFIX` of the given DSM, the prefix is bound to its address and chain.
+   */
+  static async fromContract(
+    dsm: DSMMessagePrefixes,
+    blockNumber: number,
+    blockHash: string,
+    depositRoot: string,
+    stakingModule: number,
+    keysOpIndex: number,
+  ) {
+    const messagePrefix = await dsm.ATTEST_MESSAGE_PREFIX();
+    return new DSMAttestMessage(messagePrefix, blockNumber, blockHash, depositRoot, stakingModule, keysOpIndex);
+  }
+
   get hash() {
     return solidityPackedKeccak256(
       ["bytes32", "uint256", "bytes32", "bytes32", "uint256", "uint256"],
@@ -56,16 +70,31 @@ export class DSMPauseMessage extends DSMMessage {
   blockNumber: number;
   stakingModule: number;
 
-  constructor(blockNumber: number, stakingModule: number) {
-    super();
+  constructor(messagePrefix: string, blockNumber: number, stakingModule: number) {
+    super(messagePrefix);
     this.blockNumber = blockNumber;
     this.stakingModule = stakingModule;
   }
 
+  /**
+   * Build the message with the `PAUSE_MESSAGE_PREFIX` of the given DSM, the prefix is bound to its address and chain.
+   */
+  static async fromContract(dsm: DSMMessagePrefixes, blockNumber: number, stakingModule: number) {
+    return new DSMPauseMessage(await dsm.PAUSE_MESSAGE_PREFIX(), blockNumber, stakingModule);
+  }
+
   get hash() {
     return solidityPackedKeccak256(
       ["bytes32", "uint256", "uint256"],
       [this.messagePrefix, this.blockNumber, this.stakingModule],
     );
   }
+
+  /**
+   * Check the pause intent against `pauseIntentValidityPeriodBlocks` the way `pauseDeposits` does,
+   * `executionBlockNumber` is the block the pause transaction gets into.
+   */
+  isExpired(executionBlockNumber: number, pauseIntentValidityPeriodBlocks: number) {
+    return executionBlockNumber - this.blockNumber > pauseIntentValidityPeriodBlocks;
+  }
 }
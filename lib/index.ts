@@ -4,6 +4,7 @@ export * from "./bigint-math";
 export * from "./constants";
 export * from "./contract";
 export * from "./deploy";
+export * from "./deposit-data";
 export * from "./dsm";
 export * from "./ec";
 export * from "./eip712";
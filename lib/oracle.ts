@@ -1,13 +1,13 @@
 import { bigintToHex } from "bigint-conversion";
 import { assert } from "chai";
-import { keccak256 } from "ethers";
+import { BytesLike, hexlify, keccak256 } from "ethers";
 import { ethers } from "hardhat";
 
-import { AccountingOracle, HashConsensus } from "typechain-types";
+import { AccountingOracle, HashConsensus, ValidatorsExitBusOracle } from "typechain-types";
 
-import { CONSENSUS_VERSION } from "lib/constants";
+import { CONSENSUS_VERSION, PUBKEY_LENGTH_HEX } from "lib/constants";
 
-import { numberToHex } from "./string";
+import { de0x, numberToHex } from "./string";
 
 export type OracleReport = AccountingOracle.ReportDataStruct;
 
@@ -15,6 +15,16 @@ export type ReportAsArray = ReturnType<typeof getReportDataItems>;
 
 export type KeyType = { moduleId: number; nodeOpIds: number[]; keysCounts: number[] };
 export type ExtraDataType = { stuckKeys: KeyType[]; exitedKeys: KeyType[] };
+export type ExtraDataItem = KeyType & { itemIndex: number; itemType: bigint };
+export type NodeOperatorValidatorsCount = { moduleId: number; nodeOpId: number; count: number };
+export type ExtraDataCounts = {
+  stuckValidators: NodeOperatorValidatorsCount[];
+  exitedValidators: NodeOperatorValidatorsCount[];
+};
+export type ExtraDataLimits = {
+  maxAccountingExtraDataListItemsCount: bigint;
+  maxNodeOperatorsPerExtraDataItemCount: bigint;
+};
 
 export const EXTRA_DATA_FORMAT_EMPTY = 0n;
 export const EXTRA_DATA_FORMAT_LIST = 1n;
@@ -22,6 +32,20 @@ export const EXTRA_DATA_FORMAT_LIST = 1n;
 export const EXTRA_DATA_TYPE_STUCK_VALIDATORS = 1n;
 export const EXTRA_DATA_TYPE_EXITED_VALIDATORS = 2n;
 
+export type ExitBusOracleReport = ValidatorsExitBusOracle.ReportDataStruct;
+
+export type ExitBusReportAsArray = ReturnType<typeof getExitBusReportDataItems>;
+
+export type ExitRequest = { moduleId: number; nodeOpId: number; valIndex: number; valPubkey: string };
+
+export const EXIT_REQUESTS_DATA_FORMAT_LIST = 1n;
+
+// | 3 bytes moduleId | 5 bytes nodeOpId | 8 bytes validatorIndex | 48 bytes validatorPubkey |
+const EXIT_REQUEST_PACKED_LENGTH_HEX = (3 + 5 + 8) * 2 + PUBKEY_LENGTH_HEX;
+
+const MAX_EXIT_REQUEST_MODULE_ID = 2 ** 24 - 1;
+const MAX_EXIT_REQUEST_NODE_OP_ID = 2 ** 40 - 1;
+
 const DEFAULT_REPORT_FIELDS: OracleReport = {
   consensusVersion: 1n,
   refSlot: 0n,
@@ -160,6 +184,43 @@ export function encodeExtraDataItems(data: ExtraDataType) {
   return items;
 }
 
+/**
+ * Groups per node operator validators counts into extra data items sorted by module and node operator ids.
+ * Items holding more than `maxNodeOpsPerItem` node operators are split into several items.
+ */
+export function buildExtraData(counts: ExtraDataCounts, maxNodeOpsPerItem = Infinity): ExtraDataType {
+  if (maxNodeOpsPerItem < 1) {
+    throw new Error(`Invalid max node operators per item: ${maxNodeOpsPerItem}`);
+  }
+
+  const buildKeys = (validatorsCounts: NodeOperatorValidatorsCount[]) => {
+    const byModule = new Map<number, Map<number, number>>();
+    for (const { moduleId, nodeOpId, count } of validatorsCounts) {
+      const byNodeOp = byModule.get(moduleId) ?? new Map<number, number>();
+      if (byNodeOp.has(nodeOpId)) {
+        throw new Error(`Duplicate validators count for module ${moduleId} node operator ${nodeOpId}`);
+      }
+      byModule.set(moduleId, byNodeOp.set(nodeOpId, count));
+    }
+
+    const keys: KeyType[] = [];
+    for (const moduleId of [...byModule.keys()].sort((a, b) => a - b)) {
+      const byNodeOp = byModule.get(moduleId)!;
+      const nodeOpIds = [...byNodeOp.keys()].sort((a, b) => a - b);
+      for (let i = 0; i < nodeOpIds.length; i += maxNodeOpsPerItem) {
+        const chunk = nodeOpIds.slice(i, i + maxNodeOpsPerItem);
+        keys.push({ moduleId, nodeOpIds: chunk, keysCounts: chunk.map((id) => byNodeOp.get(id)!) });
+      }
+    }
+    return keys;
+  };
+
+  return {
+    stuckKeys: buildKeys(counts.stuckValidators),
+    exitedKeys: buildKeys(counts.exitedValidators),
+  };
+}
+
 export function packExtraDataList(extraDataItems: string[]) {
   return "0x" + extraDataItems.map((s) => s.substring(2)).join("");
 }
@@ -168,6 +229,220 @@ export function calcExtraDataListHash(packedExtraDataList: string) {
   return keccak256(packedExtraDataList);
 }
 
+/**
+ * Decodes packed extra data list back into items. Only the layout is checked here,
+ * use `validateExtraData` to check the items against the `AccountingOracle` rules.
+ */
+export function decodeExtraDataList(extraDataList: BytesLike): ExtraDataItem[] {
+  const dataHex = de0x(hexlify(extraDataList));
+  const items: ExtraDataItem[] = [];
+
+  let offset = 0;
+  const read = (bytesCount: number) => {
+    const value = BigInt("0x" + dataHex.substring(offset, offset + bytesCount * 2));
+    offset += bytesCount * 2;
+    return value;
+  };
+
+  while (offset < dataHex.length) {
+    const position = items.length;
+
+    // | 3 bytes itemIndex | 2 bytes itemType | 3 bytes moduleId | 8 bytes nodeOpsCount | ... |
+    // has to fit at least the headers and data for one node operator (8 + 16 bytes)
+    if (offset + (5 + 35) * 2 > dataHex.length) {
+      throw new Error(`InvalidExtraDataItem: item at position ${position} is too short`);
+    }
+
+    const itemIndex = Number(read(3));
+    const itemType = read(2);
+
+    if (itemType !== EXTRA_DATA_TYPE_STUCK_VALIDATORS && itemType !== EXTRA_DATA_TYPE_EXITED_VALIDATORS) {
+      throw new Error(`UnsupportedExtraDataType: item ${itemIndex} has type ${itemType}`);
+    }
+
+    const moduleId = Number(read(3));
+    const nodeOpsCount = Number(read(8));
+
+    if (offset + nodeOpsCount * (8 + 16) * 2 > dataHex.length) {
+      throw new Error(`InvalidExtraDataItem: item ${itemIndex} payload exceeds the data length`);
+    }
+
+    const nodeOpIds = Array.from({ length: nodeOpsCount }, () => Number(read(8)));
+    const keysCounts = Array.from({ length: nodeOpsCount }, () => Number(read(16)));
+
+    items.push({ itemIndex, itemType, moduleId, nodeOpIds, keysCounts });
+  }
+
+  return items;
+}
+
+/**
+ * Checks extra data items against the rules enforced by `AccountingOracle` on extra data submission
+ * and, if the limits are passed, against the `OracleReportSanityChecker` limits.
+ * Errors are named after the corresponding contract errors.
+ */
+export function validateExtraData(items: ExtraDataItem[], limits?: ExtraDataLimits) {
+  let lastSortingKey = 0n;
+  let maxNodeOpsCount = 0;
+  let maxNodeOpsItemIndex = 0;
+
+  items.forEach(({ itemIndex, itemType, moduleId, nodeOpIds, keysCounts }, position) => {
+    if (itemIndex !== position) {
+      throw new Error(`UnexpectedExtraDataIndex: expected ${position}, got ${itemIndex}`);
+    }
+
+    if (itemType !== EXTRA_DATA_TYPE_STUCK_VALIDATORS && itemType !== EXTRA_DATA_TYPE_EXITED_VALIDATORS) {
+      throw new Error(`UnsupportedExtraDataType: item ${itemIndex} has type ${itemType}`);
+    }
+
+    if (moduleId === 0 || nodeOpIds.length === 0 || nodeOpIds.length !== keysCounts.length) {
+      throw new Error(`InvalidExtraDataItem: item ${itemIndex} has invalid module id or node operators payload`);
+    }
+
+    // | 2 bytes itemType | 19 bytes 0 | 3 bytes moduleId | 8 bytes firstNodeOpId |
+    const sortingKey = (itemType << 240n) | (BigInt(moduleId) << 64n) | BigInt(nodeOpIds[0]);
+    if (sortingKey <= lastSortingKey) {
+      throw new Error(`InvalidExtraDataSortOrder: item ${itemIndex} is out of order`);
+    }
+    lastSortingKey = sortingKey;
+
+    for (let i = 1; i < nodeOpIds.length; i++) {
+      if (nodeOpIds[i] <= nodeOpIds[i - 1]) {
+        throw new Error(`InvalidExtraDataSortOrder: node operator ids of item ${itemIndex} are not sorted or unique`);
+      }
+    }
+
+    if (nodeOpIds.length > maxNodeOpsCount) {
+      maxNodeOpsCount = nodeOpIds.length;
+      maxNodeOpsItemIndex = itemIndex;
+    }
+  });
+
+  if (!limits) {
+    return;
+  }
+
+  if (BigInt(items.length) > limits.maxAccountingExtraDataListItemsCount) {
+    throw new Error(
+      `MaxAccountingExtraDataItemsCountExceeded: ${items.length} items, limit is ${limits.maxAccountingExtraDataListItemsCount}`,
+    );
+  }
+
+  if (BigInt(maxNodeOpsCount) > limits.maxNodeOperatorsPerExtraDataItemCount) {
+    throw new Error(
+      `TooManyNodeOpsPerExtraDataItem: item ${maxNodeOpsItemIndex} has ${maxNodeOpsCount} node operators, limit is ${limits.maxNodeOperatorsPerExtraDataItemCount}`,
+    );
+  }
+}
+
+export function encodeExitRequestHex({ moduleId, nodeOpId, valIndex, valPubkey }: ExitRequest) {
+  const pubkeyHex = de0x(valPubkey);
+  if (pubkeyHex.length !== PUBKEY_LENGTH_HEX) {
+    throw new Error(`Invalid validator pubkey length: ${valPubkey}`);
+  }
+  return numberToHex(moduleId, 3) + numberToHex(nodeOpId, 5) + numberToHex(valIndex, 8) + pubkeyHex;
+}
+
+export function encodeExitRequestsList(requests: ExitRequest[]) {
+  return "0x" + requests.map(encodeExitRequestHex).join("");
+}
+
+export function decodeExitRequestsList(data: string): ExitRequest[] {
+  const dataHex = de0x(data);
+  if (dataHex.length % EXIT_REQUEST_PACKED_LENGTH_HEX !== 0) {
+    throw new Error(`Invalid exit requests data length: ${dataHex.length / 2} bytes`);
+  }
+
+  const requests: ExitRequest[] = [];
+  for (let offset = 0; offset < dataHex.length; offset += EXIT_REQUEST_PACKED_LENGTH_HEX) {
+    const packed = dataHex.substring(offset, offset + EXIT_REQUEST_PACKED_LENGTH_HEX);
+    requests.push({
+      moduleId: parseInt(packed.substring(0, 6), 16),
+      nodeOpId: parseInt(packed.substring(6, 16), 16),
+      valIndex: Number(BigInt("0x" + packed.substring(16, 32))),
+      valPubkey: "0x" + packed.substring(32),
+    });
+  }
+  return requests;
+}
+
+/**
+ * Packs the (moduleId, nodeOpId, valIndex) compound key the same way the contract does.
+ */
+function getExitRequestSortKey({ moduleId, nodeOpId, valIndex }: ExitRequest) {
+  return (BigInt(moduleId) << 104n) | (BigInt(nodeOpId) << 64n) | BigInt(valIndex);
+}
+
+export function sortExitRequests(requests: ExitRequest[]) {
+  return [...requests].sort((a, b) => {
+    const [keyA, keyB] = [getExitRequestSortKey(a), getExitRequestSortKey(b)];
+    return keyA < keyB ? -1 : keyA > keyB ? 1 : 0;
+  });
+}
+
+/**
+ * Validates exit requests against the rules applied in `ValidatorsExitBusOracle._processExitRequestsList`.
+ * Errors are named after the corresponding contract errors.
+ */
+export function validateExitRequestsList(requests: ExitRequest[]) {
+  let lastSortKey = 0n;
+  requests.forEach((request, index) => {
+    const { moduleId, nodeOpId, valIndex, valPubkey } = request;
+
+    if (moduleId === 0) {
+      throw new Error(`InvalidRequestsData: request ${index} has zero module id`);
+    }
+
+    if (moduleId > MAX_EXIT_REQUEST_MODULE_ID || nodeOpId > MAX_EXIT_REQUEST_NODE_OP_ID || valIndex < 0) {
+      throw new Error(`ArgumentOutOfBounds: request ${index} doesn't fit into the packed format`);
+    }
+
+    if (de0x(valPubkey).length !== PUBKEY_LENGTH_HEX) {
+      throw new Error(`InvalidRequestsDataLength: request ${index} has invalid pubkey length`);
+    }
+
+    const sortKey = getExitRequestSortKey(request);
+    if (sortKey <= lastSortKey) {
+      throw new Error(`InvalidRequestsDataSortOrder: request ${index} is not greater than the previous one`);
+    }
+    lastSortKey = sortKey;
+  });
+}
+
+export function getExitBusReportDataItems(r: ExitBusOracleReport) {
+  return [r.consensusVersion, r.refSlot, r.requestsCount, r.dataFormat, r.data];
+}
+
+export function calcExitBusReportDataHash(reportItems: ExitBusReportAsArray) {
+  const data = ethers.AbiCoder.defaultAbiCoder().encode(["(uint256, uint256, uint256, uint256, bytes)"], [reportItems]);
+  return ethers.keccak256(data);
+}
+
+export function prepareExitBusReport({
+  refSlot,
+  requests,
+  consensusVersion = CONSENSUS_VERSION,
+}: {
+  refSlot: bigint;
+  requests: ExitRequest[];
+  consensusVersion?: bigint;
+}) {
+  validateExitRequestsList(requests);
+
+  const fields = {
+    consensusVersion,
+    refSlot,
+    requestsCount: requests.length,
+    dataFormat: EXIT_REQUESTS_DATA_FORMAT_LIST,
+    data: encodeExitRequestsList(requests),
+  } as ExitBusOracleReport;
+
+  const items = getExitBusReportDataItems(fields);
+  const hash = calcExitBusReportDataHash(items);
+
+  return { fields, items, hash };
+}
+
 export async function getSecondsPerFrame(consensus: HashConsensus) {
   const [chainConfig, frameConfig] = await Promise.all([consensus.getChainConfig(), consensus.getFrameConfig()]);
   return chainConfig.secondsPerSlot * chainConfig.slotsPerEpoch * frameConfig.epochsPerFrame;
@@ -7,6 +7,7 @@ import { discover } from "./discover";
 import { isNonForkingHardhatNetwork } from "./networks";
 import { provision } from "./provision";
 import { ProtocolContext, ProtocolContextFlags, ProtocolSigners, Signer } from "./types";
+import { verifyDiscovery } from "./verify";
 
 const getSigner = async (signer: Signer, balance = ether("100"), signers: ProtocolSigners) => {
   const signerAddress = signers[signer] ?? signer;
@@ -18,21 +19,26 @@ export const getProtocolContext = async (): Promise<ProtocolContext> => {
     await deployScratchProtocol(hre.network.name);
   }
 
-  const { contracts, signers } = await discover();
-  const interfaces = Object.values(contracts).map((contract) => contract.interface);
+  const { contracts, modules, signers } = await discover();
+  const interfaces = [...Object.values(contracts), ...modules.map(({ contract }) => contract)].map(
+    (contract) => contract.interface,
+  );
 
   // By default, all flags are "on"
   const flags = {
     isScratchDeploy: process.env.INTEGRATION_SCRATCH_DEPLOY === "on",
     withSimpleDvtModule: process.env.INTEGRATION_SIMPLE_DVT_MODULE !== "off",
+    withInvariantChecks: process.env.INTEGRATION_INVARIANT_CHECKS === "on",
   } as ProtocolContextFlags;
 
   log.debug("Protocol context flags", {
     "With simple DVT module": flags.withSimpleDvtModule,
+    "With invariant checks": flags.withInvariantChecks,
   });
 
   const context = {
     contracts,
+    modules,
     signers,
     interfaces,
     flags,
@@ -41,6 +47,7 @@ export const getProtocolContext = async (): Promise<ProtocolContext> => {
       findEventsWithInterfaces(receipt, eventName, interfaces),
   } as ProtocolContext;
 
+  await verifyDiscovery(context);
   await provision(context);
 
   return context;
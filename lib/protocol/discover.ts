@@ -1,6 +1,13 @@
 import hre from "hardhat";
 
-import { AccountingOracle, Lido, LidoLocator, StakingRouter, WithdrawalQueueERC721 } from "typechain-types";
+import {
+  AccountingOracle,
+  Lido,
+  LidoLocator,
+  StakingRouter,
+  ValidatorsExitBusOracle,
+  WithdrawalQueueERC721,
+} from "typechain-types";
 
 import { batch, log } from "lib";
 
@@ -14,12 +21,29 @@ import {
   LoadedContract,
   ProtocolContracts,
   ProtocolSigners,
+  StakingModule,
   StakingModuleContracts,
+  StakingModuleStatus,
   WstETHContracts,
 } from "./types";
 
-const guard = (address: string, env: string) => {
-  if (!address) throw new Error(`${address} address is not set, please set it in the environment variables: ${env}`);
+const DEFAULT_STAKING_MODULE_CONTRACT: ContractName = "IStakingModule";
+
+/**
+ * Contract types of the staking modules by their name in the staking router.
+ * Modules with unknown names are loaded with the generic IStakingModule interface.
+ */
+const stakingModuleContractNames = new Map<string, ContractName>([
+  ["curated-onchain-v1", "NodeOperatorsRegistry"],
+  ["SimpleDVT", "NodeOperatorsRegistry"],
+]);
+
+/**
+ * Set the contract type to load the staking module with, e.g. for a community module on a fork.
+ * Must be called before the protocol context is created.
+ */
+export const registerStakingModuleContract = (moduleName: string, contractName: ContractName) => {
+  stakingModuleContractNames.set(moduleName, contractName);
 };
 
 const getDiscoveryConfig = async () => {
@@ -28,16 +52,13 @@ const getDiscoveryConfig = async () => {
     throw new Error(`Network ${hre.network.name} is not supported`);
   }
 
+  config.validate();
+
   const locatorAddress = config.get("locator");
   const agentAddress = config.get("agentAddress");
   const votingAddress = config.get("votingAddress");
   const easyTrackExecutorAddress = config.get("easyTrackAddress");
 
-  guard(locatorAddress, config.env.locator);
-  guard(agentAddress, config.env.agentAddress);
-  guard(votingAddress, config.env.votingAddress);
-  guard(easyTrackExecutorAddress, config.env.easyTrackAddress);
-
   log.debug("Discovery config", {
     "Network": hre.network.name,
     "Source": config.source,
@@ -116,26 +137,61 @@ const getAragonContracts = async (lido: LoadedContract<Lido>, config: ProtocolNe
 };
 
 /**
- * Load staking modules contracts registered in the staking router.
+ * Load all staking modules registered in the staking router along with their metadata.
  */
-const getStakingModules = async (stakingRouter: LoadedContract<StakingRouter>, config: ProtocolNetworkConfig) => {
-  const [nor, sdvt] = await stakingRouter.getStakingModules();
+const getStakingModules = async (stakingRouter: LoadedContract<StakingRouter>) => {
+  const modules = await stakingRouter.getStakingModules();
+  return Promise.all(
+    modules.map(async (module) => {
+      const contractName = stakingModuleContractNames.get(module.name) ?? DEFAULT_STAKING_MODULE_CONTRACT;
+      return {
+        id: module.id,
+        name: module.name,
+        address: module.stakingModuleAddress,
+        fee: module.stakingModuleFee,
+        treasuryFee: module.treasuryFee,
+        targetShare: module.targetShare,
+        status: Number(module.status) as StakingModuleStatus,
+        contractName,
+        contract: await loadContract(contractName, module.stakingModuleAddress),
+      } as StakingModule;
+    }),
+  );
+};
+
+/**
+ * Load the legacy aliases for the first two staking modules: curated (nor) and simple DVT (sdvt).
+ * The sdvt alias is missing when the staking router has a single module, see flags.withSimpleDvtModule.
+ */
+const getStakingModuleContracts = async (modules: StakingModule[], config: ProtocolNetworkConfig) => {
+  const [nor, sdvt] = modules;
+  const norAddress = config.get("nor") || nor?.address;
+  const sdvtAddress = config.get("sdvt") || sdvt?.address;
+
+  if (!norAddress) {
+    throw new Error("No staking modules registered in the staking router");
+  }
+
   return (await batch({
-    nor: loadContract("NodeOperatorsRegistry", config.get("nor") || nor.stakingModuleAddress),
-    sdvt: loadContract("NodeOperatorsRegistry", config.get("sdvt") || sdvt.stakingModuleAddress),
+    nor: loadContract("NodeOperatorsRegistry", norAddress),
+    ...(sdvtAddress ? { sdvt: loadContract("NodeOperatorsRegistry", sdvtAddress) } : {}),
   })) as StakingModuleContracts;
 };
 
 /**
- * Load HashConsensus contract for accounting oracle.
+ * Load HashConsensus contracts for accounting oracle and validators exit bus oracle.
  */
-const getHashConsensusContract = async (
+const getHashConsensusContracts = async (
   accountingOracle: LoadedContract<AccountingOracle>,
+  validatorsExitBusOracle: LoadedContract<ValidatorsExitBusOracle>,
   config: ProtocolNetworkConfig,
 ) => {
   const hashConsensusAddress = config.get("hashConsensus") || (await accountingOracle.getConsensusContract());
+  const hashConsensusForVEBOAddress =
+    config.get("hashConsensusForVEBO") || (await validatorsExitBusOracle.getConsensusContract());
   return (await batch({
     hashConsensus: loadContract("HashConsensus", hashConsensusAddress),
+    hashConsensusForVEBO: loadContract("HashConsensus", hashConsensusForVEBOAddress),
   })) as HashConsensusContracts;
 };
 
@@ -157,13 +213,18 @@ export async function discover() {
   const networkConfig = await getDiscoveryConfig();
   const locator = await loadContract("LidoLocator", networkConfig.get("locator"));
   const foundationContracts = await getCoreContracts(locator, networkConfig);
+  const modules = await getStakingModules(foundationContracts.stakingRouter);
 
   const contracts = {
     locator,
     ...foundationContracts,
     ...(await getAragonContracts(foundationContracts.lido, networkConfig)),
-    ...(await getStakingModules(foundationContracts.stakingRouter, networkConfig)),
-    ...(await getHashConsensusContract(foundationContracts.accountingOracle, networkConfig)),
+    ...(await getStakingModuleContracts(modules, networkConfig)),
+    ...(await getHashConsensusContracts(
+      foundationContracts.accountingOracle,
+      foundationContracts.validatorsExitBusOracle,
+      networkConfig,
+    )),
     ...(await getWstEthContract(foundationContracts.withdrawalQueue, networkConfig)),
   } as ProtocolContracts;
 
@@ -172,6 +233,7 @@ export async function discover() {
     "Lido": foundationContracts.lido.address,
     "Accounting Oracle": foundationContracts.accountingOracle.address,
     "Hash Consensus": contracts.hashConsensus.address,
+    "Hash Consensus for VEBO": contracts.hashConsensusForVEBO.address,
     "Execution Layer Rewards Vault": foundationContracts.elRewardsVault.address,
     "Withdrawal Queue": foundationContracts.withdrawalQueue.address,
     "Withdrawal Vault": foundationContracts.withdrawalVault.address,
@@ -181,7 +243,7 @@ export async function discover() {
     "Staking Router": foundationContracts.stakingRouter.address,
     "Deposit Security Module": foundationContracts.depositSecurityModule.address,
     "NOR": contracts.nor.address,
-    "sDVT": contracts.sdvt.address,
+    "sDVT": contracts.sdvt?.address,
     "Kernel": contracts.kernel.address,
     "ACL": contracts.acl.address,
     "Burner": foundationContracts.burner.address,
@@ -189,6 +251,16 @@ export async function discover() {
     "wstETH": contracts.wstETH.address,
   });
 
+  log.debug(
+    "Staking modules discovered",
+    Object.fromEntries(
+      modules.map((module) => [
+        `${module.id}: ${module.name}`,
+        `${module.address} (${module.contractName}, ${StakingModuleStatus[module.status]})`,
+      ]),
+    ),
+  );
+
   const signers = {
     agent: networkConfig.get("agentAddress"),
     voting: networkConfig.get("votingAddress"),
@@ -197,5 +269,5 @@ export async function discover() {
 
   log.debug("Signers discovered", signers);
 
-  return { contracts, signers };
+  return { contracts, modules, signers };
 }
@@ -1,26 +1,38 @@
 import { expect } from "chai";
-import { ContractTransactionResponse, formatEther, Result } from "ethers";
+import { ContractTransactionResponse, formatEther, getBytes, isError } from "ethers";
 import { ethers } from "hardhat";
 
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 
-import { AccountingOracle } from "typechain-types";
+import { AccountingOracle, HashConsensus } from "typechain-types";
 
 import {
   advanceChainTime,
   BigIntMath,
+  buildExtraData,
+  calcExtraDataListHash,
   certainAddress,
+  decodeExtraDataList,
+  encodeExtraDataItems,
   ether,
   EXTRA_DATA_FORMAT_EMPTY,
+  EXTRA_DATA_FORMAT_LIST,
+  ExtraDataCounts,
   getCurrentBlockTimestamp,
   HASH_CONSENSUS_FAR_FUTURE_EPOCH,
   impersonate,
   log,
   ONE_GWEI,
+  packExtraDataList,
   trace,
+  validateExtraData,
 } from "lib";
 
-import { ProtocolContext } from "../types";
+import { LoadedContract, ProtocolContext } from "../types";
+
+import { calculateFinalizationBatches } from "./finalizationBatches";
+import { maybeEnsureProtocolInvariants } from "./invariants";
+import { clampFinalizationBatches, clampReportToLimits, planReport, ReportPlan } from "./reportPlanner";
 
 export type OracleReportOptions = {
   clDiff: bigint;
@@ -39,10 +51,14 @@ export type OracleReportOptions = {
   extraDataHash: string;
   extraDataItemsCount: bigint;
   extraDataList: Uint8Array;
+  extraData: ExtraDataCounts | null;
+  validatorsDelta: NodeOperatorValidatorsDelta[];
   stakingModuleIdsWithNewlyExitedValidators: bigint[];
   numExitedValidatorsByStakingModule: bigint[];
   reportElVault: boolean;
   reportWithdrawalsVault: boolean;
+  clampToLimits: boolean;
+  bunkerMode: boolean | BunkerModeScenario | null;
   silent: boolean;
 };
 
@@ -64,6 +80,28 @@ export type OracleReportPushOptions = {
   extraDataList?: Uint8Array;
 };
 
+export type BunkerModeSlashing = {
+  moduleId: number;
+  slashedValidators: bigint;
+  penaltyPerValidator: bigint; // estimated midterm penalty
+};
+
+/**
+ * Slashings to derive the bunker mode from, like the oracle does with its midterm penalties prediction.
+ * The slashing penalties aren't applied to the reported CL balance, use `clDiff` for that.
+ */
+export type BunkerModeScenario = {
+  slashings: BunkerModeSlashing[];
+  abnormalClRebase?: boolean;
+};
+
+export type NodeOperatorValidatorsDelta = {
+  moduleId: number;
+  nodeOpId: number;
+  exited?: number;
+  stuck?: number;
+};
+
 const ZERO_HASH = new Uint8Array(32).fill(0);
 const ZERO_BYTES32 = "0x" + Buffer.from(ZERO_HASH).toString("hex");
 const SHARE_RATE_PRECISION = 10n ** 27n;
@@ -91,10 +129,14 @@ export const report = async (
     extraDataHash = ZERO_BYTES32,
     extraDataItemsCount = 0n,
     extraDataList = new Uint8Array(),
+    extraData = null,
+    validatorsDelta = [],
     stakingModuleIdsWithNewlyExitedValidators = [],
     numExitedValidatorsByStakingModule = [],
     reportElVault = true,
     reportWithdrawalsVault = true,
+    clampToLimits = false,
+    bunkerMode = null,
   } = {} as Partial<OracleReportOptions>,
 ): Promise<{
   data: AccountingOracle.ReportDataStruct;
@@ -113,15 +155,6 @@ export const report = async (
     ({ refSlot } = await hashConsensus.getCurrentFrame());
   }
 
-  const { beaconValidators, beaconBalance } = await lido.getBeaconStat();
-  const postCLBalance = beaconBalance + clDiff;
-  const postBeaconValidators = beaconValidators + clAppearedValidators;
-
-  log.debug("Beacon", {
-    "Beacon validators": postBeaconValidators,
-    "Beacon balance": formatEther(postCLBalance),
-  });
-
   elRewardsVaultBalance = elRewardsVaultBalance ?? (await ethers.provider.getBalance(elRewardsVault.address));
   withdrawalVaultBalance = withdrawalVaultBalance ?? (await ethers.provider.getBalance(withdrawalVault.address));
 
@@ -155,6 +188,50 @@ export const report = async (
     "ElRewards vault": formatEther(elRewardsVaultBalance),
   });
 
+  // Fit the report into the sanity checker limits instead of reverting on them
+  let plan: ReportPlan | null = null;
+  if (clampToLimits) {
+    const params = {
+      refSlot,
+      clDiff,
+      clAppearedValidators,
+      withdrawalVaultBalance,
+      elRewardsVaultBalance,
+      sharesRequestedToBurn,
+      simulatedShareRate,
+      withdrawalFinalizationBatches,
+    };
+    plan = await planReport(ctx, params);
+    ({ clDiff, clAppearedValidators, simulatedShareRate, withdrawalFinalizationBatches } = clampReportToLimits(
+      plan,
+      params,
+    ));
+  }
+
+  const { beaconValidators, beaconBalance } = await lido.getBeaconStat();
+  const postCLBalance = beaconBalance + clDiff;
+  const postBeaconValidators = beaconValidators + clAppearedValidators;
+
+  log.debug("Beacon", {
+    "Beacon validators": postBeaconValidators,
+    "Beacon balance": formatEther(postCLBalance),
+  });
+
+  // Validators counts derived from the staking modules state replace the hand-computed ones
+  if (validatorsDelta.length > 0) {
+    if (extraData || stakingModuleIdsWithNewlyExitedValidators.length > 0) {
+      throw new Error("validatorsDelta can't be combined with extraData or the exited validators by module arrays");
+    }
+
+    ({ stakingModuleIdsWithNewlyExitedValidators, numExitedValidatorsByStakingModule, extraData } =
+      await prepareValidatorsCounts(ctx, validatorsDelta));
+  }
+
+  // Structured validators counts take precedence over the pre-encoded extra data
+  if (extraData) {
+    ({ extraDataFormat, extraDataHash, extraDataItemsCount, extraDataList } = await prepareExtraData(ctx, extraData));
+  }
+
   let isBunkerMode = false;
 
   if (!skipWithdrawals) {
@@ -183,17 +260,31 @@ export const report = async (
       simulatedShareRate = (postTotalPooledEther * SHARE_RATE_PRECISION) / postTotalShares;
     }
 
+    isBunkerMode = getBunkerMode({
+      bunkerMode,
+      preTotalPooledEther: await lido.getTotalPooledEther(),
+      postTotalPooledEther,
+      clRebase: clDiff - clAppearedValidators * ether("32"), // the deposits of the appeared validators aren't rewards
+    });
+
+    log.debug("Bunker Mode", { "Is Active": isBunkerMode });
+
     if (withdrawalFinalizationBatches.length === 0) {
       withdrawalFinalizationBatches = await getFinalizationBatches(ctx, {
         shareRate: simulatedShareRate,
         limitedWithdrawalVaultBalance: withdrawals,
         limitedElRewardsVaultBalance: elRewards,
+        isBunkerMode,
       });
-    }
-
-    isBunkerMode = (await lido.getTotalPooledEther()) > postTotalPooledEther;
 
-    log.debug("Bunker Mode", { "Is Active": isBunkerMode });
+      if (plan) {
+        withdrawalFinalizationBatches = clampFinalizationBatches(
+          withdrawalFinalizationBatches,
+          plan.lastFinalizableRequestId,
+          plan.lastFinalizedRequestId,
+        );
+      }
+    }
   } else if (simulatedShareRate === null) {
     simulatedShareRate = 0n;
   }
@@ -254,11 +345,17 @@ export const report = async (
     extraDataList,
   };
 
-  return submitReport(ctx, reportParams);
+  const result = await submitReport(ctx, reportParams);
+
+  await maybeEnsureProtocolInvariants(ctx, "report");
+
+  return result;
 };
 
-export const getReportTimeElapsed = async (ctx: ProtocolContext) => {
-  const { hashConsensus } = ctx.contracts;
+export const getReportTimeElapsed = async (
+  ctx: ProtocolContext,
+  hashConsensus: LoadedContract<HashConsensus> = ctx.contracts.hashConsensus,
+) => {
   const { slotsPerEpoch, secondsPerSlot, genesisTime } = await hashConsensus.getChainConfig();
   const { refSlot } = await hashConsensus.getCurrentFrame();
   const time = await getCurrentBlockTimestamp();
@@ -293,15 +390,17 @@ export const getReportTimeElapsed = async (ctx: ProtocolContext) => {
 /**
  * Wait for the next available report time.
  */
-export const waitNextAvailableReportTime = async (ctx: ProtocolContext): Promise<void> => {
-  const { hashConsensus } = ctx.contracts;
+export const waitNextAvailableReportTime = async (
+  ctx: ProtocolContext,
+  hashConsensus: LoadedContract<HashConsensus> = ctx.contracts.hashConsensus,
+): Promise<void> => {
   const { slotsPerEpoch } = await hashConsensus.getChainConfig();
   const { epochsPerFrame } = await hashConsensus.getFrameConfig();
   const { refSlot } = await hashConsensus.getCurrentFrame();
 
   const slotsPerFrame = slotsPerEpoch * epochsPerFrame;
 
-  const { nextFrameStartWithOffset, timeElapsed } = await getReportTimeElapsed(ctx);
+  const { nextFrameStartWithOffset, timeElapsed } = await getReportTimeElapsed(ctx, hashConsensus);
 
   await advanceChainTime(timeElapsed);
 
@@ -423,8 +522,51 @@ export const handleOracleReport = async (
   }
 };
 
+/**
+ * Bunker mode of the report: forced by the option, or on when the report is a negative rebase, the slashings
+ * penalties of the scenario outweigh the CL rebase or the CL rebase is marked as abnormal.
+ */
+const getBunkerMode = (params: {
+  bunkerMode: boolean | BunkerModeScenario | null;
+  preTotalPooledEther: bigint;
+  postTotalPooledEther: bigint;
+  clRebase: bigint;
+}) => {
+  const { bunkerMode, preTotalPooledEther, postTotalPooledEther, clRebase } = params;
+
+  if (typeof bunkerMode === "boolean") {
+    return bunkerMode;
+  }
+
+  if (preTotalPooledEther > postTotalPooledEther) {
+    return true;
+  }
+
+  if (bunkerMode === null) {
+    return false;
+  }
+
+  const midtermPenalties = bunkerMode.slashings.reduce(
+    (sum, { slashedValidators, penaltyPerValidator }) => sum + slashedValidators * penaltyPerValidator,
+    0n,
+  );
+
+  log.debug("Bunker mode scenario", {
+    "Slashed validators": bunkerMode.slashings
+      .map(({ moduleId, slashedValidators }) => `${moduleId}: ${slashedValidators}`)
+      .join(", "),
+    "Midterm penalties": formatEther(midtermPenalties),
+    "CL rebase": formatEther(clRebase),
+    "Abnormal CL rebase": !!bunkerMode.abnormalClRebase,
+  });
+
+  return midtermPenalties > clRebase || !!bunkerMode.abnormalClRebase;
+};
+
 /**
  * Get finalization batches to finalize withdrawals.
+ * In bunker mode only the requests created before the bunker mode start are finalized, the bunker mode starts
+ * with the previous report if it isn't active yet.
  */
 const getFinalizationBatches = async (
   ctx: ProtocolContext,
@@ -432,10 +574,11 @@ const getFinalizationBatches = async (
     shareRate: bigint;
     limitedWithdrawalVaultBalance: bigint;
     limitedElRewardsVaultBalance: bigint;
+    isBunkerMode: boolean;
   },
 ): Promise<bigint[]> => {
-  const { oracleReportSanityChecker, lido, withdrawalQueue } = ctx.contracts;
-  const { shareRate, limitedWithdrawalVaultBalance, limitedElRewardsVaultBalance } = params;
+  const { oracleReportSanityChecker, lido, withdrawalQueue, accountingOracle, hashConsensus } = ctx.contracts;
+  const { shareRate, limitedWithdrawalVaultBalance, limitedElRewardsVaultBalance, isBunkerMode } = params;
 
   const { requestTimestampMargin } = await oracleReportSanityChecker.getOracleReportLimits();
 
@@ -446,63 +589,34 @@ const getFinalizationBatches = async (
   const availableEth = limitedWithdrawalVaultBalance + limitedElRewardsVaultBalance + reservedBuffer;
 
   const blockTimestamp = await getCurrentBlockTimestamp();
-  const maxTimestamp = blockTimestamp - requestTimestampMargin;
-  const MAX_REQUESTS_PER_CALL = 1000n;
+  let maxTimestamp = blockTimestamp - requestTimestampMargin;
+
+  if (isBunkerMode) {
+    let bunkerModeStart: bigint;
+    if (await withdrawalQueue.isBunkerModeActive()) {
+      bunkerModeStart = await withdrawalQueue.bunkerModeSinceTimestamp();
+    } else {
+      const { genesisTime, secondsPerSlot } = await hashConsensus.getChainConfig();
+      bunkerModeStart = genesisTime + (await accountingOracle.getLastProcessingRefSlot()) * secondsPerSlot;
+    }
+
+    maxTimestamp = BigIntMath.min(maxTimestamp, bunkerModeStart);
+
+    log.debug("Bunker mode finalization border", { "Bunker mode start": bunkerModeStart });
+  }
 
   if (availableEth === 0n) {
     log.warning("No available ether to request withdrawals");
     return [];
   }
 
-  log.debug("Calculating finalization batches", {
-    "Share Rate": shareRate,
-    "Available Eth": formatEther(availableEth),
-    "Max Timestamp": maxTimestamp,
-  });
-
-  const baseState = {
-    remainingEthBudget: availableEth,
-    finished: false,
-    batches: Array(36).fill(0n),
-    batchesLength: 0n,
-  };
-
-  let batchesState = await withdrawalQueue.calculateFinalizationBatches(
-    shareRate,
+  const { batches } = await calculateFinalizationBatches(ctx, {
+    maxShareRate: shareRate,
     maxTimestamp,
-    MAX_REQUESTS_PER_CALL,
-    baseState,
-  );
-
-  log.debug("Calculated finalization batches", {
-    "Batches": batchesState.batches.join(", "),
-    "Finished": batchesState.finished,
-    "Batches Length": batchesState.batchesLength,
+    ethBudget: availableEth,
   });
 
-  while (!batchesState.finished) {
-    const state = {
-      remainingEthBudget: batchesState.remainingEthBudget,
-      finished: batchesState.finished,
-      batches: (batchesState.batches as Result).toArray(),
-      batchesLength: batchesState.batchesLength,
-    };
-
-    batchesState = await withdrawalQueue.calculateFinalizationBatches(
-      shareRate,
-      maxTimestamp,
-      MAX_REQUESTS_PER_CALL,
-      state,
-    );
-
-    log.debug("Calculated finalization batches", {
-      "Batches": batchesState.batches.join(", "),
-      "Finished": batchesState.finished,
-      "Batches Length": batchesState.batchesLength,
-    });
-  }
-
-  return (batchesState.batches as Result).toArray().filter((x) => x > 0n);
+  return batches;
 };
 
 /**
@@ -582,6 +696,10 @@ export const submitReport = async (
     consensusVersion,
   });
 
+  if (extraDataFormat) {
+    await ensureExtraDataListFitsSingleTx(ctx, submitter, data, oracleVersion, extraDataList);
+  }
+
   log.debug("Pushed oracle report for reached consensus", data);
 
   const reportTx = await accountingOracle.connect(submitter).submitReportData(data, oracleVersion);
@@ -641,11 +759,168 @@ export const submitReport = async (
 };
 
 /**
- * Ensure that the oracle committee has the required number of members.
+ * Turn the newly exited and stuck validators of the node operators into the report totals.
+ * Module totals go to the main report data, node operator totals go to the extra data.
  */
-export const ensureOracleCommitteeMembers = async (ctx: ProtocolContext, minMembersCount = MIN_MEMBERS_COUNT) => {
-  const { hashConsensus } = ctx.contracts;
+const prepareValidatorsCounts = async (ctx: ProtocolContext, validatorsDelta: NodeOperatorValidatorsDelta[]) => {
+  const { stakingRouter } = ctx.contracts;
+
+  const extraData: ExtraDataCounts = { stuckValidators: [], exitedValidators: [] };
+  const newlyExitedByModule = new Map<number, bigint>();
+
+  for (const { moduleId, nodeOpId, exited = 0, stuck = 0 } of validatorsDelta) {
+    if (exited < 0) {
+      throw new Error(`Exited validators count can't decrease: module ${moduleId}, node operator ${nodeOpId}`);
+    }
+
+    const summary = await stakingRouter.getNodeOperatorSummary(moduleId, nodeOpId);
+    const totalExited = summary.totalExitedValidators + BigInt(exited);
+    const totalStuck = summary.stuckValidatorsCount + BigInt(stuck);
+
+    if (totalExited > summary.totalDepositedValidators) {
+      throw new Error(
+        `Module ${moduleId}, node operator ${nodeOpId}: ${totalExited} exited validators ` +
+          `exceed ${summary.totalDepositedValidators} deposited`,
+      );
+    }
+
+    if (totalStuck < 0n || totalStuck > summary.totalDepositedValidators - totalExited) {
+      throw new Error(
+        `Module ${moduleId}, node operator ${nodeOpId}: ${totalStuck} stuck validators ` +
+          `don't fit ${summary.totalDepositedValidators - totalExited} active ones`,
+      );
+    }
+
+    if (exited > 0) {
+      extraData.exitedValidators.push({ moduleId, nodeOpId, count: Number(totalExited) });
+      newlyExitedByModule.set(moduleId, (newlyExitedByModule.get(moduleId) ?? 0n) + BigInt(exited));
+    }
+
+    if (stuck !== 0) {
+      extraData.stuckValidators.push({ moduleId, nodeOpId, count: Number(totalStuck) });
+    }
+  }
+
+  // AccountingOracle expects the module ids in ascending order
+  const stakingModuleIdsWithNewlyExitedValidators = [...newlyExitedByModule.keys()].sort((a, b) => a - b).map(BigInt);
+
+  const numExitedValidatorsByStakingModule: bigint[] = [];
+  for (const moduleId of stakingModuleIdsWithNewlyExitedValidators) {
+    const { totalExitedValidators } = await stakingRouter.getStakingModuleSummary(moduleId);
+    numExitedValidatorsByStakingModule.push(totalExitedValidators + newlyExitedByModule.get(Number(moduleId))!);
+  }
+
+  log.debug("Validators counts", {
+    "Modules with newly exited validators": stakingModuleIdsWithNewlyExitedValidators.join(", "),
+    "Exited validators by module": numExitedValidatorsByStakingModule.join(", "),
+    "Node operators with exited validators": extraData.exitedValidators.length,
+    "Node operators with stuck validators": extraData.stuckValidators.length,
+  });
+
+  return { stakingModuleIdsWithNewlyExitedValidators, numExitedValidatorsByStakingModule, extraData };
+};
+
+/**
+ * Build the extra data list from the validators counts and check it against the sanity checker limits.
+ */
+const prepareExtraData = async (ctx: ProtocolContext, counts: ExtraDataCounts) => {
+  const { oracleReportSanityChecker } = ctx.contracts;
+
+  const limits = await oracleReportSanityChecker.getOracleReportLimits();
+  const extraData = buildExtraData(counts, Number(limits.maxNodeOperatorsPerExtraDataItemCount));
+  const extraDataItems = encodeExtraDataItems(extraData);
+
+  if (extraDataItems.length === 0) {
+    return {
+      extraDataFormat: EXTRA_DATA_FORMAT_EMPTY,
+      extraDataHash: ZERO_BYTES32,
+      extraDataItemsCount: 0n,
+      extraDataList: new Uint8Array(),
+    };
+  }
 
+  const extraDataList = packExtraDataList(extraDataItems);
+
+  try {
+    validateExtraData(decodeExtraDataList(extraDataList), limits);
+  } catch (error) {
+    throw new Error(
+      `Extra data doesn't pass the sanity checks: ${(error as Error).message}. ` +
+        "Report fewer node operators or raise the limits in OracleReportSanityChecker.",
+    );
+  }
+
+  log.debug("Extra data", {
+    "Stuck keys items": extraData.stuckKeys.length,
+    "Exited keys items": extraData.exitedKeys.length,
+    "Max items count": limits.maxAccountingExtraDataListItemsCount,
+    "Max node operators per item": limits.maxNodeOperatorsPerExtraDataItemCount,
+  });
+
+  return {
+    extraDataFormat: EXTRA_DATA_FORMAT_LIST,
+    extraDataHash: calcExtraDataListHash(extraDataList),
+    extraDataItemsCount: BigInt(extraDataItems.length),
+    extraDataList: getBytes(extraDataList),
+  };
+};
+
+/**
+ * Check that the extra data list can be submitted in a single transaction before the main data is, otherwise
+ * the oracle would be left with the main data processed and the extra data never delivered.
+ * AccountingOracle rejects lists split across several transactions with ExtraDataListOnlySupportsSingleTx.
+ * The extra data processing depends on the main data, so the gas is estimated after the main data submission
+ * in a snapshot that is reverted afterwards.
+ */
+const ensureExtraDataListFitsSingleTx = async (
+  ctx: ProtocolContext,
+  submitter: HardhatEthersSigner,
+  data: AccountingOracle.ReportDataStruct,
+  oracleVersion: bigint,
+  extraDataList: Uint8Array,
+) => {
+  const { accountingOracle } = ctx.contracts;
+
+  const snapshot = await ethers.provider.send("evm_snapshot", []);
+
+  let gas: bigint;
+  try {
+    await accountingOracle.connect(submitter).submitReportData(data, oracleVersion);
+    gas = await accountingOracle.connect(submitter).submitReportExtraDataList.estimateGas(extraDataList);
+  } catch (error) {
+    const reason =
+      isError(error, "CALL_EXCEPTION") && error.revert ? error.revert.name : (error as Error).message.split("\n")[0];
+    throw new Error(`Extra data list doesn't pass the oracle checks: ${reason}`);
+  } finally {
+    await ethers.provider.send("evm_revert", [snapshot]);
+  }
+
+  const block = await ethers.provider.getBlock("latest");
+  const blockGasLimit = block!.gasLimit;
+
+  log.debug("Extra data list gas", {
+    "Extra data list size": extraDataList.length,
+    "Estimated gas": gas,
+    "Block gas limit": blockGasLimit,
+  });
+
+  if (gas > blockGasLimit) {
+    throw new Error(
+      `Extra data list of ${extraDataList.length} bytes requires ${gas} gas, ` +
+        `which exceeds the block gas limit of ${blockGasLimit}. ` +
+        "Multi-transaction lists are rejected with ExtraDataListOnlySupportsSingleTx, report fewer items.",
+    );
+  }
+};
+
+/**
+ * Ensure that the oracle committee has the required number of members.
+ */
+export const ensureOracleCommitteeMembers = async (
+  ctx: ProtocolContext,
+  minMembersCount = MIN_MEMBERS_COUNT,
+  hashConsensus: LoadedContract<HashConsensus> = ctx.contracts.hashConsensus,
+) => {
   const members = await hashConsensus.getFastLaneMembers();
   const addresses = members.addresses.map((address) => address.toLowerCase());
 
@@ -690,9 +965,10 @@ export const ensureOracleCommitteeMembers = async (ctx: ProtocolContext, minMemb
   expect(addresses.length).to.be.gte(minMembersCount);
 };
 
-export const ensureHashConsensusInitialEpoch = async (ctx: ProtocolContext) => {
-  const { hashConsensus } = ctx.contracts;
-
+export const ensureHashConsensusInitialEpoch = async (
+  ctx: ProtocolContext,
+  hashConsensus: LoadedContract<HashConsensus> = ctx.contracts.hashConsensus,
+) => {
   const { initialEpoch } = await hashConsensus.getFrameConfig();
   if (initialEpoch === HASH_CONSENSUS_FAR_FUTURE_EPOCH) {
     log.warning("Initializing hash consensus epoch...");
@@ -713,15 +989,15 @@ export const ensureHashConsensusInitialEpoch = async (ctx: ProtocolContext) => {
 /**
  * Submit reports from all fast lane members to reach consensus on the report.
  */
-const reachConsensus = async (
+export const reachConsensus = async (
   ctx: ProtocolContext,
   params: {
     refSlot: bigint;
     reportHash: string;
     consensusVersion: bigint;
   },
+  hashConsensus: LoadedContract<HashConsensus> = ctx.contracts.hashConsensus,
 ) => {
-  const { hashConsensus } = ctx.contracts;
   const { refSlot, reportHash, consensusVersion } = params;
 
   const { addresses } = await hashConsensus.getFastLaneMembers();
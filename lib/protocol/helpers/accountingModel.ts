@@ -0,0 +1,458 @@
+import { solidityPackedKeccak256 } from "ethers";
+import { ethers } from "hardhat";
+
+import { BigIntMath, ether, streccak } from "lib";
+
+import { ProtocolContext } from "../types";
+
+export type WithdrawalRequestModel = {
+  id: bigint;
+  cumulativeStETH: bigint;
+  cumulativeShares: bigint;
+  timestamp: bigint;
+  reportTimestamp: bigint;
+};
+
+export type RewardsDistributionModel = {
+  recipients: string[];
+  moduleIds: bigint[];
+  modulesFees: bigint[];
+  totalFee: bigint;
+  precisionPoints: bigint;
+};
+
+/**
+ * Protocol state the accounting of the report depends on, plain values so it can be stored and loaded as JSON
+ * with `serializeAccountingModelState` and `deserializeAccountingModelState`.
+ */
+export type AccountingModelState = {
+  bufferedEther: bigint;
+  clBalance: bigint;
+  clValidators: bigint;
+  depositedValidators: bigint;
+  totalShares: bigint;
+  maxPositiveTokenRebase: bigint;
+  requestTimestampMargin: bigint;
+  rewardsDistribution: RewardsDistributionModel;
+  withdrawalQueue: {
+    isPaused: boolean;
+    lastFinalizedRequestId: bigint;
+    requests: WithdrawalRequestModel[]; // from the last finalized request to the last one
+  };
+};
+
+/**
+ * The same inputs as `Lido.handleOracleReport`.
+ */
+export type OracleReportModelInput = {
+  reportTimestamp: bigint;
+  timeElapsed: bigint;
+  clValidators: bigint;
+  clBalance: bigint;
+  withdrawalVaultBalance: bigint;
+  elRewardsVaultBalance: bigint;
+  sharesRequestedToBurn: bigint;
+  withdrawalFinalizationBatches: bigint[];
+  simulatedShareRate: bigint;
+};
+
+export type OracleReportModelResult = {
+  preTotalPooledEther: bigint;
+  preTotalShares: bigint;
+  preCLBalance: bigint;
+  postTotalPooledEther: bigint;
+  postTotalShares: bigint;
+  postBufferedEther: bigint;
+  withdrawals: bigint;
+  elRewards: bigint;
+  etherToLockOnWithdrawalQueue: bigint;
+  sharesToBurnFromWithdrawalQueue: bigint;
+  simulatedSharesToBurn: bigint;
+  sharesToBurn: bigint;
+  sharesMintedAsFees: bigint;
+  moduleRewards: bigint[]; // in the order of the rewards distribution recipients
+  treasuryRewards: bigint;
+};
+
+export type FinalizationBatchesModelParams = {
+  maxShareRate: bigint;
+  maxTimestamp: bigint;
+  ethBudget: bigint;
+  maxBatchesLength?: bigint;
+};
+
+const DEPOSIT_SIZE = ether("32");
+const SHARE_RATE_PRECISION = 10n ** 27n;
+const LIMITER_PRECISION_BASE = 10n ** 9n;
+const UNLIMITED_REBASE = 2n ** 64n - 1n;
+const MAX_UINT256 = 2n ** 256n - 1n;
+const MAX_BATCHES_LENGTH = 36n; // WithdrawalQueueBase.MAX_BATCHES_LENGTH
+const QUEUE_POSITION = streccak("lido.WithdrawalQueue.queue");
+
+/**
+ * PositiveTokenRebaseLimiter, tracks the total pooled ether changes within the max positive rebase.
+ */
+class TokenRebaseLimiterModel {
+  private readonly maxTotalPooledEther: bigint;
+  private readonly positiveRebaseLimit: bigint;
+  private currentTotalPooledEther: bigint;
+
+  constructor(
+    rebaseLimit: bigint,
+    private readonly preTotalPooledEther: bigint,
+    private readonly preTotalShares: bigint,
+  ) {
+    if (rebaseLimit === 0n) throw new Error("TooLowTokenRebaseLimit");
+    if (rebaseLimit > UNLIMITED_REBASE) throw new Error("TooHighTokenRebaseLimit");
+
+    this.positiveRebaseLimit = preTotalPooledEther === 0n ? UNLIMITED_REBASE : rebaseLimit;
+    this.currentTotalPooledEther = preTotalPooledEther;
+    this.maxTotalPooledEther =
+      this.positiveRebaseLimit === UNLIMITED_REBASE
+        ? MAX_UINT256
+        : preTotalPooledEther + (this.positiveRebaseLimit * preTotalPooledEther) / LIMITER_PRECISION_BASE;
+  }
+
+  decreaseEther(amount: bigint) {
+    if (this.positiveRebaseLimit === UNLIMITED_REBASE) return;
+    if (amount > this.currentTotalPooledEther) throw new Error("NegativeTotalPooledEther");
+
+    this.currentTotalPooledEther -= amount;
+  }
+
+  increaseEther(amount: bigint) {
+    if (this.positiveRebaseLimit === UNLIMITED_REBASE) return amount;
+
+    const prevPooledEther = this.currentTotalPooledEther;
+    this.currentTotalPooledEther = BigIntMath.min(this.currentTotalPooledEther + amount, this.maxTotalPooledEther);
+
+    return this.currentTotalPooledEther - prevPooledEther;
+  }
+
+  getSharesToBurnLimit() {
+    if (this.positiveRebaseLimit === UNLIMITED_REBASE) return this.preTotalShares;
+    if (this.currentTotalPooledEther >= this.maxTotalPooledEther) return 0n;
+
+    const rebaseLimitPlus1 = this.positiveRebaseLimit + LIMITER_PRECISION_BASE;
+    const pooledEtherRate = (this.currentTotalPooledEther * LIMITER_PRECISION_BASE) / this.preTotalPooledEther;
+
+    return (this.preTotalShares * (rebaseLimitPlus1 - pooledEtherRate)) / rebaseLimitPlus1;
+  }
+}
+
+const getRequest = (state: AccountingModelState, id: bigint) => {
+  const { lastFinalizedRequestId, requests } = state.withdrawalQueue;
+
+  const request = requests[Number(id - lastFinalizedRequestId)];
+  if (!request || request.id !== id) {
+    throw new Error(`Withdrawal request ${id} is not in the model state`);
+  }
+  return request;
+};
+
+/**
+ * WithdrawalQueueBase._calcBatch
+ */
+const calcBatch = (preStartRequest: WithdrawalRequestModel, endRequest: WithdrawalRequestModel) => {
+  const stETH = endRequest.cumulativeStETH - preStartRequest.cumulativeStETH;
+  const shares = endRequest.cumulativeShares - preStartRequest.cumulativeShares;
+
+  return { shareRate: (stETH * SHARE_RATE_PRECISION) / shares, stETH, shares };
+};
+
+/**
+ * WithdrawalQueueBase.prefinalize, the ether to lock and the shares to burn for the finalization batches.
+ */
+export const modelPrefinalize = (state: AccountingModelState, batches: bigint[], maxShareRate: bigint) => {
+  const { lastFinalizedRequestId, requests } = state.withdrawalQueue;
+  const lastRequestId = requests[requests.length - 1].id;
+
+  if (maxShareRate === 0n) throw new Error("ZeroShareRate");
+  if (batches.length === 0) throw new Error("EmptyBatches");
+  if (batches[0] <= lastFinalizedRequestId) throw new Error(`InvalidRequestId(${batches[0]})`);
+  if (batches[batches.length - 1] > lastRequestId) throw new Error(`InvalidRequestId(${batches[batches.length - 1]})`);
+
+  let ethToLock = 0n;
+  let sharesToBurn = 0n;
+  let prevBatchEnd = getRequest(state, lastFinalizedRequestId);
+
+  for (const batchEndRequestId of batches) {
+    if (batchEndRequestId <= prevBatchEnd.id) throw new Error("BatchesAreNotSorted");
+
+    const batchEnd = getRequest(state, batchEndRequestId);
+    const { shareRate, stETH, shares } = calcBatch(prevBatchEnd, batchEnd);
+
+    // The requests above the share rate line are discounted
+    ethToLock += shareRate > maxShareRate ? (shares * maxShareRate) / SHARE_RATE_PRECISION : stETH;
+    sharesToBurn += shares;
+
+    prevBatchEnd = batchEnd;
+  }
+
+  return { ethToLock, sharesToBurn };
+};
+
+/**
+ * WithdrawalQueueBase.calculateFinalizationBatches run to the end in a single pass.
+ */
+export const modelFinalizationBatches = (
+  state: AccountingModelState,
+  { maxShareRate, maxTimestamp, ethBudget, maxBatchesLength = MAX_BATCHES_LENGTH }: FinalizationBatchesModelParams,
+) => {
+  const { lastFinalizedRequestId, requests } = state.withdrawalQueue;
+
+  const batches: bigint[] = [];
+  let remainingEthBudget = ethBudget;
+  let prevRequest = getRequest(state, lastFinalizedRequestId);
+  let prevRequestShareRate = 0n;
+
+  for (const request of requests.slice(1)) {
+    if (request.timestamp > maxTimestamp) break;
+
+    const { shareRate, stETH, shares } = calcBatch(prevRequest, request);
+    const ethToFinalize = shareRate > maxShareRate ? (shares * maxShareRate) / SHARE_RATE_PRECISION : stETH;
+
+    if (ethToFinalize > remainingEthBudget) break;
+    remainingEthBudget -= ethToFinalize;
+
+    // The requests placed between the same reports or on the same side of the share rate line share the batch
+    const extendsBatch =
+      batches.length > 0 &&
+      (prevRequest.reportTimestamp === request.reportTimestamp ||
+        (prevRequestShareRate <= maxShareRate && shareRate <= maxShareRate) ||
+        (prevRequestShareRate > maxShareRate && shareRate > maxShareRate));
+
+    if (extendsBatch) {
+      batches[batches.length - 1] = request.id;
+    } else {
+      if (BigInt(batches.length) === maxBatchesLength) break;
+      batches.push(request.id);
+    }
+
+    prevRequestShareRate = shareRate;
+    prevRequest = request;
+  }
+
+  return { batches, remainingEthBudget };
+};
+
+/**
+ * Lido._distributeFee, mints the fee shares and splits them between the staking modules and the treasury.
+ */
+const distributeFee = (
+  distribution: RewardsDistributionModel,
+  preTotalPooledEther: bigint,
+  preTotalShares: bigint,
+  totalRewards: bigint,
+) => {
+  const { recipients, modulesFees, totalFee, precisionPoints } = distribution;
+  const moduleRewards = recipients.map(() => 0n);
+
+  if (totalRewards === 0n || totalFee === 0n) {
+    return { sharesMintedAsFees: 0n, moduleRewards, treasuryRewards: 0n };
+  }
+
+  const totalPooledEtherWithRewards = preTotalPooledEther + totalRewards;
+  const sharesMintedAsFees =
+    (totalRewards * totalFee * preTotalShares) /
+    (totalPooledEtherWithRewards * precisionPoints - totalRewards * totalFee);
+
+  for (const [i, fee] of modulesFees.entries()) {
+    if (fee > 0n) {
+      moduleRewards[i] = (sharesMintedAsFees * fee) / totalFee;
+    }
+  }
+
+  const totalModuleRewards = moduleRewards.reduce((sum, rewards) => sum + rewards, 0n);
+
+  return { sharesMintedAsFees, moduleRewards, treasuryRewards: sharesMintedAsFees - totalModuleRewards };
+};
+
+/**
+ * Reference implementation of the `Lido.handleOracleReport` accounting, computed without a node.
+ * The sanity checks of the report data are not modelled, use `planReport` to check the limits.
+ */
+export const modelOracleReport = (
+  state: AccountingModelState,
+  input: OracleReportModelInput,
+): OracleReportModelResult => {
+  const { clValidators, clBalance, withdrawalVaultBalance, elRewardsVaultBalance, sharesRequestedToBurn } = input;
+  const { withdrawalFinalizationBatches, simulatedShareRate } = input;
+
+  // Step 1. The pre-report state and the CL state update
+  const transientBalance = (state.depositedValidators - state.clValidators) * DEPOSIT_SIZE;
+  const preTotalPooledEther = state.bufferedEther + state.clBalance + transientBalance;
+  const preTotalShares = state.totalShares;
+
+  if (clValidators > state.depositedValidators) throw new Error("REPORTED_MORE_DEPOSITED");
+  if (clValidators < state.clValidators) throw new Error("REPORTED_LESS_VALIDATORS");
+
+  const preCLBalance = state.clBalance + (clValidators - state.clValidators) * DEPOSIT_SIZE;
+
+  // Step 3. Withdrawal requests to finalize
+  let etherToLockOnWithdrawalQueue = 0n;
+  let sharesToBurnFromWithdrawalQueue = 0n;
+  if (withdrawalFinalizationBatches.length > 0 && !state.withdrawalQueue.isPaused) {
+    ({ ethToLock: etherToLockOnWithdrawalQueue, sharesToBurn: sharesToBurnFromWithdrawalQueue } = modelPrefinalize(
+      state,
+      withdrawalFinalizationBatches,
+      simulatedShareRate,
+    ));
+  }
+
+  // Step 4. OracleReportSanityChecker.smoothenTokenRebase
+  const limiter = new TokenRebaseLimiterModel(state.maxPositiveTokenRebase, preTotalPooledEther, preTotalShares);
+  if (clBalance < preCLBalance) {
+    limiter.decreaseEther(preCLBalance - clBalance);
+  } else {
+    limiter.increaseEther(clBalance - preCLBalance);
+  }
+
+  const withdrawals = limiter.increaseEther(withdrawalVaultBalance);
+  const elRewards = limiter.increaseEther(elRewardsVaultBalance);
+  const simulatedSharesToBurn = BigIntMath.min(limiter.getSharesToBurnLimit(), sharesRequestedToBurn);
+
+  limiter.decreaseEther(etherToLockOnWithdrawalQueue);
+  const sharesToBurn = BigIntMath.min(
+    limiter.getSharesToBurnLimit(),
+    sharesToBurnFromWithdrawalQueue + sharesRequestedToBurn,
+  );
+
+  // Step 5. Collect the vaults ether and lock the ether for the withdrawals
+  const postBufferedEther = state.bufferedEther + elRewards + withdrawals - etherToLockOnWithdrawalQueue;
+
+  // Step 7. No fee is minted on the non-profitable report
+  const postCLTotalBalance = clBalance + withdrawals;
+  const totalRewards = postCLTotalBalance > preCLBalance ? postCLTotalBalance - preCLBalance + elRewards : 0n;
+  const fees = distributeFee(state.rewardsDistribution, preTotalPooledEther, preTotalShares, totalRewards);
+
+  // Step 8. The post-report totals, step 6 burns the shares
+  const postTransientBalance = (state.depositedValidators - clValidators) * DEPOSIT_SIZE;
+
+  return {
+    preTotalPooledEther,
+    preTotalShares,
+    preCLBalance,
+    postTotalPooledEther: postBufferedEther + clBalance + postTransientBalance,
+    postTotalShares: preTotalShares - sharesToBurn + fees.sharesMintedAsFees,
+    postBufferedEther,
+    withdrawals,
+    elRewards,
+    etherToLockOnWithdrawalQueue,
+    sharesToBurnFromWithdrawalQueue,
+    simulatedSharesToBurn,
+    sharesToBurn,
+    ...fees,
+  };
+};
+
+/**
+ * Model the report the way the oracle builds it: the share rate and the ether budget come from the report
+ * without the withdrawals, then the batches are calculated for the requests that passed the timestamp margin.
+ */
+export const modelOracleReportWithFinalization = (
+  state: AccountingModelState,
+  input: Omit<OracleReportModelInput, "withdrawalFinalizationBatches" | "simulatedShareRate">,
+) => {
+  const simulated = modelOracleReport(state, { ...input, withdrawalFinalizationBatches: [], simulatedShareRate: 0n });
+  const simulatedShareRate = (simulated.postTotalPooledEther * SHARE_RATE_PRECISION) / simulated.postTotalShares;
+
+  const { requests } = state.withdrawalQueue;
+  const unfinalizedStETH = requests[requests.length - 1].cumulativeStETH - requests[0].cumulativeStETH;
+  const ethBudget = simulated.withdrawals + simulated.elRewards + BigIntMath.min(state.bufferedEther, unfinalizedStETH);
+
+  const { batches } =
+    ethBudget > 0n
+      ? modelFinalizationBatches(state, {
+          maxShareRate: simulatedShareRate,
+          maxTimestamp: input.reportTimestamp - state.requestTimestampMargin,
+          ethBudget,
+        })
+      : { batches: [] };
+
+  return {
+    simulatedShareRate,
+    withdrawalFinalizationBatches: batches,
+    ...modelOracleReport(state, { ...input, withdrawalFinalizationBatches: batches, simulatedShareRate }),
+  };
+};
+
+/**
+ * Read the withdrawal request from the queue storage, the getters don't expose the cumulative values.
+ */
+export const readWithdrawalRequest = async (ctx: ProtocolContext, id: bigint): Promise<WithdrawalRequestModel> => {
+  const { withdrawalQueue } = ctx.contracts;
+
+  const slot = BigInt(solidityPackedKeccak256(["uint256", "bytes32"], [id, QUEUE_POSITION]));
+  const amounts = BigInt(await ethers.provider.getStorage(withdrawalQueue.address, slot));
+  const meta = BigInt(await ethers.provider.getStorage(withdrawalQueue.address, slot + 1n));
+
+  // Slot 0: cumulativeStETH (128) | cumulativeShares (128)
+  // Slot 1: owner (160) | timestamp (40) | claimed (8) | reportTimestamp (40)
+  return {
+    id,
+    cumulativeStETH: amounts & (2n ** 128n - 1n),
+    cumulativeShares: amounts >> 128n,
+    timestamp: (meta >> 160n) & (2n ** 40n - 1n),
+    reportTimestamp: (meta >> 208n) & (2n ** 40n - 1n),
+  };
+};
+
+/**
+ * Read the model state from the current block, save it as JSON to model the reports without a node.
+ */
+export const readAccountingModelState = async (ctx: ProtocolContext): Promise<AccountingModelState> => {
+  const { lido, oracleReportSanityChecker, stakingRouter, withdrawalQueue } = ctx.contracts;
+
+  const { depositedValidators, beaconValidators, beaconBalance } = await lido.getBeaconStat();
+  const { requestTimestampMargin } = await oracleReportSanityChecker.getOracleReportLimits();
+  const [recipients, moduleIds, modulesFees, totalFee, precisionPoints] =
+    await stakingRouter.getStakingRewardsDistribution();
+
+  const lastFinalizedRequestId = await withdrawalQueue.getLastFinalizedRequestId();
+  const lastRequestId = await withdrawalQueue.getLastRequestId();
+
+  const requests: WithdrawalRequestModel[] = [];
+  for (let id = lastFinalizedRequestId; id <= lastRequestId; id++) {
+    requests.push(await readWithdrawalRequest(ctx, id));
+  }
+
+  return {
+    bufferedEther: await lido.getBufferedEther(),
+    clBalance: beaconBalance,
+    clValidators: beaconValidators,
+    depositedValidators,
+    totalShares: await lido.getTotalShares(),
+    maxPositiveTokenRebase: await oracleReportSanityChecker.getMaxPositiveTokenRebase(),
+    requestTimestampMargin,
+    rewardsDistribution: {
+      recipients: [...recipients],
+      moduleIds: [...moduleIds],
+      modulesFees: [...modulesFees],
+      totalFee,
+      precisionPoints,
+    },
+    withdrawalQueue: {
+      isPaused: await withdrawalQueue.isPaused(),
+      lastFinalizedRequestId,
+      requests,
+    },
+  };
+};
+
+// The bigints are stored as "<digits>n" strings, the same way the fuzzer prints them
+const BIGINT_JSON_PATTERN = /^-?\d+n$/;
+
+/**
+ * Store the model state as JSON, the bigints are kept as strings.
+ */
+export const serializeAccountingModelState = (state: AccountingModelState) =>
+  JSON.stringify(state, (_, value) => (typeof value === "bigint" ? `${value}n` : value), 2);
+
+/**
+ * Load the model state stored with `serializeAccountingModelState`.
+ */
+export const deserializeAccountingModelState = (json: string): AccountingModelState =>
+  JSON.parse(json, (_, value) =>
+    typeof value === "string" && BIGINT_JSON_PATTERN.test(value) ? BigInt(value.slice(0, -1)) : value,
+  );
@@ -0,0 +1,144 @@
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+
+import { HashConsensus } from "typechain-types";
+
+import { getCurrentBlockTimestamp, log } from "lib";
+
+import { LoadedContract, ProtocolContext } from "../types";
+
+/**
+ * Chain and frame config of the consensus contract, all the clock helpers are based on it.
+ */
+export const getConsensusTimeConfig = async (hashConsensus: LoadedContract<HashConsensus>) => {
+  const { slotsPerEpoch, secondsPerSlot, genesisTime } = await hashConsensus.getChainConfig();
+  const { initialEpoch, epochsPerFrame, fastLaneLengthSlots } = await hashConsensus.getFrameConfig();
+
+  return {
+    slotsPerEpoch,
+    secondsPerSlot,
+    genesisTime,
+    initialEpoch,
+    epochsPerFrame,
+    fastLaneLengthSlots,
+    slotsPerFrame: slotsPerEpoch * epochsPerFrame,
+  };
+};
+
+/**
+ * Get the slot of the latest block according to the consensus contract chain config.
+ */
+export const getCurrentSlot = async (
+  ctx: ProtocolContext,
+  hashConsensus: LoadedContract<HashConsensus> = ctx.contracts.hashConsensus,
+) => {
+  const { secondsPerSlot, genesisTime } = await hashConsensus.getChainConfig();
+  return ((await getCurrentBlockTimestamp()) - genesisTime) / secondsPerSlot;
+};
+
+/**
+ * Mine a block at the start of the slot, so that the following transactions get into the same slot.
+ */
+export const advanceToSlot = async (
+  ctx: ProtocolContext,
+  slot: bigint,
+  hashConsensus: LoadedContract<HashConsensus> = ctx.contracts.hashConsensus,
+) => {
+  const { secondsPerSlot, genesisTime } = await hashConsensus.getChainConfig();
+  const timestamp = genesisTime + slot * secondsPerSlot;
+  const currentTimestamp = await getCurrentBlockTimestamp();
+
+  if (timestamp < currentTimestamp) {
+    throw new Error(
+      `Slot ${slot} is in the past, current slot is ${(currentTimestamp - genesisTime) / secondsPerSlot}`,
+    );
+  }
+
+  if (timestamp > currentTimestamp) {
+    await time.increaseTo(timestamp);
+  }
+
+  log.debug("Advanced to slot", {
+    "Slot": slot,
+    "Slot date": new Date(Number(timestamp) * 1000).toUTCString(),
+    "Seconds advanced": timestamp - currentTimestamp,
+  });
+};
+
+/**
+ * Mine a block at the first slot of the epoch.
+ */
+export const advanceToEpoch = async (
+  ctx: ProtocolContext,
+  epoch: bigint,
+  hashConsensus: LoadedContract<HashConsensus> = ctx.contracts.hashConsensus,
+) => {
+  const { slotsPerEpoch } = await hashConsensus.getChainConfig();
+  await advanceToSlot(ctx, epoch * slotsPerEpoch, hashConsensus);
+};
+
+/**
+ * Mine a block at the first slot of the frame that is `frames` frames after the current one.
+ * Skipping more than one frame leaves the frames in between without reports.
+ * Returns the ref slot of the new frame.
+ */
+export const advanceToFrameStart = async (
+  ctx: ProtocolContext,
+  frames = 1n,
+  hashConsensus: LoadedContract<HashConsensus> = ctx.contracts.hashConsensus,
+) => {
+  if (frames < 1n) {
+    throw new Error(`Can't advance ${frames} frames, only the frames after the current one can be reached`);
+  }
+
+  const { slotsPerFrame } = await getConsensusTimeConfig(hashConsensus);
+  const { refSlot } = await hashConsensus.getCurrentFrame();
+
+  // The frame starts right after its ref slot
+  const frameStartSlot = refSlot + 1n + frames * slotsPerFrame;
+  await advanceToSlot(ctx, frameStartSlot, hashConsensus);
+
+  const frame = await hashConsensus.getCurrentFrame();
+  if (frame.refSlot !== frameStartSlot - 1n) {
+    throw new Error(`Expected ref slot ${frameStartSlot - 1n} after advancing, got ${frame.refSlot}`);
+  }
+
+  return frame.refSlot;
+};
+
+/**
+ * Make sure the latest block is in the fast lane interval of its frame, i.e. only fast lane members can report.
+ * Stays in the current frame if its fast lane isn't over yet, otherwise moves to the start of the next frame.
+ */
+export const advanceIntoFastLane = async (
+  ctx: ProtocolContext,
+  hashConsensus: LoadedContract<HashConsensus> = ctx.contracts.hashConsensus,
+) => {
+  const { fastLaneLengthSlots } = await getConsensusTimeConfig(hashConsensus);
+  if (fastLaneLengthSlots === 0n) {
+    throw new Error("Fast lane is disabled in the consensus contract, fastLaneLengthSlots is 0");
+  }
+
+  const { refSlot } = await hashConsensus.getCurrentFrame();
+  const currentSlot = await getCurrentSlot(ctx, hashConsensus);
+
+  // The fast lane interval is (refSlot, refSlot + fastLaneLengthSlots]
+  if (currentSlot > refSlot && currentSlot <= refSlot + fastLaneLengthSlots) {
+    return refSlot;
+  }
+
+  return advanceToFrameStart(ctx, 1n, hashConsensus);
+};
+
+/**
+ * Mine a block at the report processing deadline slot of the current frame.
+ * Pass `slotsAfter` to get past the deadline, e.g. `1n` for the first slot where the report is stale.
+ */
+export const advanceToDeadline = async (
+  ctx: ProtocolContext,
+  slotsAfter = 0n,
+  hashConsensus: LoadedContract<HashConsensus> = ctx.contracts.hashConsensus,
+) => {
+  const { reportProcessingDeadlineSlot } = await hashConsensus.getCurrentFrame();
+  await advanceToSlot(ctx, reportProcessingDeadlineSlot + slotsAfter, hashConsensus);
+  return reportProcessingDeadlineSlot;
+};
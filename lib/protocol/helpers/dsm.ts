@@ -0,0 +1,283 @@
+import { expect } from "chai";
+import { ContractTransactionReceipt, formatEther, HDNodeWallet, Signer, Wallet, ZeroHash } from "ethers";
+import { ethers } from "hardhat";
+
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { mine } from "@nomicfoundation/hardhat-network-helpers";
+
+import { DepositSecurityModule } from "typechain-types";
+
+import { DSMAttestMessage, DSMPauseMessage, ether, impersonate, log, trace, updateBalance } from "lib";
+
+import { ProtocolContext } from "../types";
+
+export type GuardianCommittee = {
+  guardians: HDNodeWallet[]; // sorted by address, as the DSM expects the signatures
+  quorum: bigint;
+};
+
+export type GuardianCommitteeOptions = {
+  guardiansCount: bigint;
+  quorum: bigint;
+  keepExistingGuardians: boolean;
+};
+
+export type DepositAttestation = {
+  blockNumber: bigint;
+  blockHash: string;
+  depositRoot: string;
+  stakingModuleId: bigint;
+  nonce: bigint;
+  sortedGuardianSignatures: DepositSecurityModule.SignatureStruct[];
+};
+
+export type PauseIntent = {
+  message: DSMPauseMessage;
+  guardian: string;
+  signature: DepositSecurityModule.SignatureStruct;
+};
+
+const sortByAddress = (wallets: HDNodeWallet[]) =>
+  [...wallets].sort((a, b) => (BigInt(a.address) < BigInt(b.address) ? -1 : 1));
+
+/**
+ * Replace the DSM guardians with the generated wallets, so that the deposits can be attested in the tests.
+ * The existing guardians are removed unless `keepExistingGuardians` is set, their keys are out of reach anyway.
+ */
+export const setupGuardianCommittee = async (
+  ctx: ProtocolContext,
+  { guardiansCount = 3n, quorum = 2n, keepExistingGuardians = false }: Partial<GuardianCommitteeOptions> = {},
+): Promise<GuardianCommittee> => {
+  const { depositSecurityModule } = ctx.contracts;
+
+  const existingGuardians = await depositSecurityModule.getGuardians();
+  const totalGuardians = guardiansCount + (keepExistingGuardians ? BigInt(existingGuardians.length) : 0n);
+
+  if (quorum === 0n || quorum > totalGuardians) {
+    throw new Error(`Quorum ${quorum} can't be reached by ${totalGuardians} guardians`);
+  }
+
+  const owner = await impersonate(await depositSecurityModule.getOwner(), ether("1"));
+
+  if (!keepExistingGuardians) {
+    for (const guardian of existingGuardians) {
+      await depositSecurityModule.connect(owner).removeGuardian(guardian, 0n);
+    }
+  }
+
+  const guardians = sortByAddress(Array.from({ length: Number(guardiansCount) }, () => Wallet.createRandom()));
+
+  const addTx = await depositSecurityModule.connect(owner).addGuardians(
+    guardians.map(({ address }) => address),
+    quorum,
+  );
+  await trace("depositSecurityModule.addGuardians", addTx);
+
+  expect(await depositSecurityModule.getGuardianQuorum()).to.equal(quorum, "Guardian quorum");
+
+  log.debug("Guardian committee", {
+    "Guardians": guardians.map(({ address }) => address).join(", "),
+    "Quorum": quorum,
+    "Total guardians": (await depositSecurityModule.getGuardians()).length,
+  });
+
+  return { guardians, quorum };
+};
+
+/**
+ * Sign the deposit attestation for the latest block, the deposit root and the staking module nonce.
+ * Only the first `signersCount` guardians sign, the quorum by default.
+ */
+export const signDepositAttestation = async (
+  ctx: ProtocolContext,
+  committee: GuardianCommittee,
+  stakingModuleId: bigint,
+  signersCount = committee.quorum,
+): Promise<DepositAttestation> => {
+  const { depositSecurityModule, stakingRouter } = ctx.contracts;
+
+  const depositContract = await ethers.getContractAt("DepositContract", await depositSecurityModule.DEPOSIT_CONTRACT());
+
+  const block = await ethers.provider.getBlock("latest");
+  if (!block?.hash) {
+    throw new Error("Can't get the latest block to attest");
+  }
+
+  const depositRoot = await depositContract.get_deposit_root();
+  const nonce = await stakingRouter.getStakingModuleNonce(stakingModuleId);
+
+  const message = await DSMAttestMessage.fromContract(
+    depositSecurityModule,
+    block.number,
+    block.hash,
+    depositRoot,
+    Number(stakingModuleId),
+    Number(nonce),
+  );
+
+  const sortedGuardianSignatures = sortByAddress(committee.guardians.slice(0, Number(signersCount))).map((guardian) =>
+    message.sign(guardian.privateKey),
+  );
+
+  return {
+    blockNumber: BigInt(block.number),
+    blockHash: block.hash,
+    depositRoot,
+    stakingModuleId,
+    nonce,
+    sortedGuardianSignatures,
+  };
+};
+
+/**
+ * Deposit the buffered ether to the staking module through `DepositSecurityModule.depositBufferedEther`
+ * with the committee attestation, waiting for the min deposit block distance if needed.
+ * Returns the receipt and the number of the deposited validators.
+ */
+export const depositBufferedEtherWithGuardians = async (
+  ctx: ProtocolContext,
+  committee: GuardianCommittee,
+  stakingModuleId: bigint,
+  depositor: HardhatEthersSigner,
+  depositCalldata = "0x",
+) => {
+  const { depositSecurityModule, stakingRouter, lido } = ctx.contracts;
+
+  const minDepositBlockDistance = await depositSecurityModule.getMinDepositBlockDistance();
+  const lastDepositBlock = await stakingRouter.getStakingModuleLastDepositBlock(stakingModuleId);
+  const blockNumber = BigInt(await ethers.provider.getBlockNumber());
+
+  // The deposit transaction goes into the next block
+  if (blockNumber + 1n - lastDepositBlock < minDepositBlockDistance) {
+    await mine(lastDepositBlock + minDepositBlockDistance - blockNumber - 1n);
+  }
+
+  if (!(await depositSecurityModule.canDeposit(stakingModuleId))) {
+    throw new Error(`Deposits to the staking module ${stakingModuleId} are not allowed by the DSM`);
+  }
+
+  const { depositedValidators: depositedValidatorsBefore } = await lido.getBeaconStat();
+  const bufferedEtherBefore = await lido.getBufferedEther();
+
+  const attestation = await signDepositAttestation(ctx, committee, stakingModuleId);
+
+  const depositTx = await depositSecurityModule
+    .connect(depositor)
+    .depositBufferedEther(
+      attestation.blockNumber,
+      attestation.blockHash,
+      attestation.depositRoot,
+      stakingModuleId,
+      attestation.nonce,
+      depositCalldata,
+      attestation.sortedGuardianSignatures,
+    );
+  const receipt = await trace<ContractTransactionReceipt>("depositSecurityModule.depositBufferedEther", depositTx);
+
+  const { depositedValidators } = await lido.getBeaconStat();
+  const deposits = depositedValidators - depositedValidatorsBefore;
+
+  expect(await lido.getBufferedEther()).to.equal(bufferedEtherBefore - deposits * ether("32"), "Buffered ether");
+
+  log.debug("Deposited with guardians", {
+    "Staking module": stakingModuleId,
+    "Deposits": deposits,
+    "Deposited ether": formatEther(deposits * ether("32")),
+  });
+
+  return { receipt, deposits };
+};
+
+/**
+ * Sign the guardian intent to pause the deposits to the staking module at the given block, the latest one by default.
+ * The intent can be submitted within `pauseIntentValidityPeriodBlocks` blocks after it.
+ */
+export const buildPauseIntent = async (
+  ctx: ProtocolContext,
+  guardian: HDNodeWallet,
+  stakingModuleId: bigint,
+  blockNumber?: bigint,
+): Promise<PauseIntent> => {
+  const { depositSecurityModule } = ctx.contracts;
+
+  const intentBlockNumber = blockNumber ?? BigInt(await ethers.provider.getBlockNumber());
+  const message = await DSMPauseMessage.fromContract(
+    depositSecurityModule,
+    Number(intentBlockNumber),
+    Number(stakingModuleId),
+  );
+
+  return { message, guardian: guardian.address, signature: message.sign(guardian.privateKey) };
+};
+
+/**
+ * Check whether the intent is expired for the pause transaction sent next.
+ */
+export const isPauseIntentExpired = async (ctx: ProtocolContext, intent: PauseIntent) => {
+  const { depositSecurityModule } = ctx.contracts;
+
+  const pauseIntentValidityPeriodBlocks = await depositSecurityModule.getPauseIntentValidityPeriodBlocks();
+  const nextBlockNumber = (await ethers.provider.getBlockNumber()) + 1;
+
+  return intent.message.isExpired(nextBlockNumber, Number(pauseIntentValidityPeriodBlocks));
+};
+
+/**
+ * Submit the pause intent to the DSM. The guardian sends it without the signature, anyone else relays the signed one.
+ * The expired intents are rejected before sending, as the DSM would revert them with `PauseIntentExpired`.
+ */
+export const pauseDepositsWithIntent = async (ctx: ProtocolContext, intent: PauseIntent, sender: Signer) => {
+  const { depositSecurityModule, stakingRouter } = ctx.contracts;
+  const { blockNumber, stakingModule } = intent.message;
+
+  if (await isPauseIntentExpired(ctx, intent)) {
+    throw new Error(`Pause intent of ${intent.guardian} at block ${blockNumber} is expired`);
+  }
+
+  const senderAddress = await sender.getAddress();
+  const isGuardian = senderAddress.toLowerCase() === intent.guardian.toLowerCase();
+  const signature = isGuardian ? { r: ZeroHash, vs: ZeroHash } : intent.signature;
+
+  const pauseTx = await depositSecurityModule.connect(sender).pauseDeposits(blockNumber, stakingModule, signature);
+  const receipt = await trace<ContractTransactionReceipt>("depositSecurityModule.pauseDeposits", pauseTx);
+
+  expect(await stakingRouter.getStakingModuleIsDepositsPaused(stakingModule)).to.be.true;
+
+  log.debug("Deposits paused", {
+    "Staking module": stakingModule,
+    "Guardian": intent.guardian,
+    "Relayed": !isGuardian,
+  });
+
+  return receipt;
+};
+
+/**
+ * Pause the deposits to the staking module with the intent of the committee guardian sent by the guardian itself.
+ */
+export const pauseDepositsAsGuardian = async (
+  ctx: ProtocolContext,
+  guardian: HDNodeWallet,
+  stakingModuleId: bigint,
+) => {
+  await updateBalance(guardian.address, ether("1"));
+
+  const intent = await buildPauseIntent(ctx, guardian, stakingModuleId);
+  return pauseDepositsWithIntent(ctx, intent, guardian.connect(ethers.provider));
+};
+
+/**
+ * Resume the deposits to the paused staking module on behalf of the DSM owner.
+ */
+export const unpauseDeposits = async (ctx: ProtocolContext, stakingModuleId: bigint) => {
+  const { depositSecurityModule, stakingRouter } = ctx.contracts;
+
+  const owner = await impersonate(await depositSecurityModule.getOwner(), ether("1"));
+
+  const unpauseTx = await depositSecurityModule.connect(owner).unpauseDeposits(stakingModuleId);
+  await trace("depositSecurityModule.unpauseDeposits", unpauseTx);
+
+  expect(await stakingRouter.getStakingModuleIsActive(stakingModuleId)).to.be.true;
+
+  log.debug("Deposits unpaused", { "Staking module": stakingModuleId });
+};
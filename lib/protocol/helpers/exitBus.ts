@@ -0,0 +1,138 @@
+import { expect } from "chai";
+import { ContractTransactionResponse } from "ethers";
+
+import { ValidatorsExitBusOracle } from "typechain-types";
+
+import { EXIT_REQUESTS_DATA_FORMAT_LIST, ExitRequest, log, prepareExitBusReport, sortExitRequests, trace } from "lib";
+
+import { ProtocolContext } from "../types";
+
+import { ensureOracleCommitteeMembers, reachConsensus, waitNextAvailableReportTime } from "./accounting";
+
+export type ExitBusReportOptions = {
+  requests: ExitRequest[];
+  refSlot: bigint | null;
+  waitNextReportTime: boolean;
+};
+
+const MIN_MEMBERS_COUNT = 3n;
+
+/**
+ * Unpauses the validators exit bus oracle contract.
+ */
+export const unpauseValidatorsExitBusOracle = async (ctx: ProtocolContext) => {
+  const { validatorsExitBusOracle } = ctx.contracts;
+  if (await validatorsExitBusOracle.isPaused()) {
+    log.warning("Unpausing validators exit bus oracle contract");
+
+    const resumeRole = await validatorsExitBusOracle.RESUME_ROLE();
+    const agentSigner = await ctx.getSigner("agent");
+    const agentSignerAddress = await agentSigner.getAddress();
+
+    await validatorsExitBusOracle.connect(agentSigner).grantRole(resumeRole, agentSignerAddress);
+
+    const tx = await validatorsExitBusOracle.connect(agentSigner).resume();
+    await trace("validatorsExitBusOracle.resume", tx);
+
+    await validatorsExitBusOracle.connect(agentSigner).revokeRole(resumeRole, agentSignerAddress);
+
+    log.success("Unpaused validators exit bus oracle contract");
+  }
+};
+
+/**
+ * Prepare and push validators exit bus oracle report.
+ */
+export const exitBusReport = async (
+  ctx: ProtocolContext,
+  { requests = [], refSlot = null, waitNextReportTime = true } = {} as Partial<ExitBusReportOptions>,
+): Promise<{
+  data: ValidatorsExitBusOracle.ReportDataStruct;
+  reportTx: ContractTransactionResponse;
+}> => {
+  const { validatorsExitBusOracle, hashConsensusForVEBO } = ctx.contracts;
+
+  await ensureOracleCommitteeMembers(ctx, MIN_MEMBERS_COUNT, hashConsensusForVEBO);
+
+  // Fast-forward to next report time
+  if (waitNextReportTime) {
+    await waitNextAvailableReportTime(ctx, hashConsensusForVEBO);
+  }
+
+  // Get report slot from the protocol
+  if (!refSlot) {
+    ({ refSlot } = await hashConsensusForVEBO.getCurrentFrame());
+  }
+
+  const sortedRequests = sortExitRequests(requests);
+
+  const consensusVersion = await validatorsExitBusOracle.getConsensusVersion();
+  const oracleVersion = await validatorsExitBusOracle.getContractVersion();
+
+  const { fields: data, hash } = prepareExitBusReport({ refSlot, requests: sortedRequests, consensusVersion });
+
+  log.debug("Pushing exit bus oracle report", {
+    "Ref slot": refSlot,
+    "Consensus version": consensusVersion,
+    "Requests count": data.requestsCount,
+    "Report hash": hash,
+  });
+
+  const submitter = await reachConsensus(ctx, { refSlot, reportHash: hash, consensusVersion }, hashConsensusForVEBO);
+
+  const reportTx = await validatorsExitBusOracle.connect(submitter).submitReportData(data, oracleVersion);
+  await trace("validatorsExitBusOracle.submitReportData", reportTx);
+
+  const state = await validatorsExitBusOracle.getProcessingState();
+
+  log.debug("Processing state", {
+    "State ref slot": state.currentFrameRefSlot,
+    "State data hash": state.dataHash,
+    "State data submitted": state.dataSubmitted,
+    "State data format": state.dataFormat,
+    "State requests count": state.requestsCount,
+    "State requests submitted": state.requestsSubmitted,
+  });
+
+  expect(state.currentFrameRefSlot).to.equal(refSlot, "Processing state ref slot is incorrect");
+  expect(state.dataHash).to.equal(hash, "Processing state data hash is incorrect");
+  expect(state.dataSubmitted).to.be.true;
+  expect(state.dataFormat).to.equal(EXIT_REQUESTS_DATA_FORMAT_LIST, "Processing state data format is incorrect");
+  expect(state.requestsCount).to.equal(sortedRequests.length, "Processing state requests count is incorrect");
+  expect(state.requestsSubmitted).to.equal(sortedRequests.length, "Processing state requests submitted is incorrect");
+
+  await checkLastRequestedValidatorIndices(ctx, sortedRequests);
+
+  log.debug("Exit bus oracle report pushed", {
+    "Ref slot": refSlot,
+    "Consensus version": consensusVersion,
+    "Report hash": hash,
+  });
+
+  return { data, reportTx };
+};
+
+/**
+ * Check that the last requested validator index of every reported node operator matches the report.
+ */
+const checkLastRequestedValidatorIndices = async (ctx: ProtocolContext, sortedRequests: ExitRequest[]) => {
+  const { validatorsExitBusOracle } = ctx.contracts;
+
+  // requests are sorted, so the last one per node operator holds the greatest index
+  const expectedByModule = new Map<number, Map<number, number>>();
+  for (const { moduleId, nodeOpId, valIndex } of sortedRequests) {
+    const expected = expectedByModule.get(moduleId) ?? new Map<number, number>();
+    expected.set(nodeOpId, valIndex);
+    expectedByModule.set(moduleId, expected);
+  }
+
+  for (const [moduleId, expected] of expectedByModule) {
+    const nodeOpIds = [...expected.keys()];
+    const indices = await validatorsExitBusOracle.getLastRequestedValidatorIndices(moduleId, nodeOpIds);
+
+    expect(indices).to.deep.equal(
+      [...expected.values()].map(BigInt),
+      `Last requested validator indices are incorrect for module ${moduleId}`,
+    );
+  }
+};
@@ -0,0 +1,144 @@
+import { formatEther, Result } from "ethers";
+
+import { log } from "lib";
+
+import { ProtocolContext } from "../types";
+
+import { readWithdrawalRequest, WithdrawalRequestModel } from "./accountingModel";
+
+export type FinalizationBatchesParams = {
+  maxShareRate: bigint; // 1e27 precision, the simulated share rate of the report
+  maxTimestamp: bigint; // the requests created later aren't finalized
+  ethBudget: bigint;
+  maxRequestsPerCall?: bigint;
+};
+
+export type FinalizationBatch = {
+  fromRequestId: bigint;
+  toRequestId: bigint;
+  shareRate: bigint; // 1e27 precision, the share rate of the batch requests
+  finalizationShareRate: bigint; // the batch share rate capped by the max share rate
+  ethToLock: bigint;
+  sharesToBurn: bigint;
+};
+
+export type FinalizationBatchesPlan = {
+  batches: bigint[]; // the last request ids of the batches, as passed to the oracle report
+  details: FinalizationBatch[];
+  ethToLock: bigint;
+  sharesToBurn: bigint;
+  remainingEthBudget: bigint;
+  calls: number; // calculateFinalizationBatches calls it took to finish
+};
+
+const SHARE_RATE_PRECISION = 10n ** 27n;
+const MAX_BATCHES_LENGTH = 36; // WithdrawalQueueBase.MAX_BATCHES_LENGTH
+const DEFAULT_MAX_REQUESTS_PER_CALL = 1000n;
+
+/**
+ * Split the finalized range into the batches, the same way as WithdrawalQueueBase.prefinalize does.
+ */
+export const describeFinalizationBatches = (
+  lastFinalizedRequest: WithdrawalRequestModel,
+  batchEndRequests: WithdrawalRequestModel[],
+  maxShareRate: bigint,
+): FinalizationBatch[] => {
+  const details: FinalizationBatch[] = [];
+
+  let prevBatchEnd = lastFinalizedRequest;
+  for (const batchEnd of batchEndRequests) {
+    const stETH = batchEnd.cumulativeStETH - prevBatchEnd.cumulativeStETH;
+    const shares = batchEnd.cumulativeShares - prevBatchEnd.cumulativeShares;
+    const shareRate = (stETH * SHARE_RATE_PRECISION) / shares;
+
+    // The requests above the share rate line are discounted
+    const discounted = shareRate > maxShareRate;
+
+    details.push({
+      fromRequestId: prevBatchEnd.id + 1n,
+      toRequestId: batchEnd.id,
+      shareRate,
+      finalizationShareRate: discounted ? maxShareRate : shareRate,
+      ethToLock: discounted ? (shares * maxShareRate) / SHARE_RATE_PRECISION : stETH,
+      sharesToBurn: shares,
+    });
+
+    prevBatchEnd = batchEnd;
+  }
+
+  return details;
+};
+
+/**
+ * Calculate the finalization batches with `WithdrawalQueue.calculateFinalizationBatches`, calling it until it's
+ * finished, and describe each batch. The totals come from `WithdrawalQueue.prefinalize`.
+ */
+export const calculateFinalizationBatches = async (
+  ctx: ProtocolContext,
+  {
+    maxShareRate,
+    maxTimestamp,
+    ethBudget,
+    maxRequestsPerCall = DEFAULT_MAX_REQUESTS_PER_CALL,
+  }: FinalizationBatchesParams,
+): Promise<FinalizationBatchesPlan> => {
+  const { withdrawalQueue } = ctx.contracts;
+
+  log.debug("Calculating finalization batches", {
+    "Max share rate": maxShareRate,
+    "Max timestamp": maxTimestamp,
+    "ETH budget": formatEther(ethBudget),
+    "Max requests per call": maxRequestsPerCall,
+  });
+
+  let state = {
+    remainingEthBudget: ethBudget,
+    finished: false,
+    batches: Array(MAX_BATCHES_LENGTH).fill(0n),
+    batchesLength: 0n,
+  };
+
+  let calls = 0;
+  while (!state.finished) {
+    const result = await withdrawalQueue.calculateFinalizationBatches(
+      maxShareRate,
+      maxTimestamp,
+      maxRequestsPerCall,
+      state,
+    );
+    calls++;
+
+    state = {
+      remainingEthBudget: result.remainingEthBudget,
+      finished: result.finished,
+      batches: (result.batches as Result).toArray(),
+      batchesLength: result.batchesLength,
+    };
+
+    log.debug(`Calculated finalization batches, call ${calls}`, {
+      "Batches": state.batches.slice(0, Number(state.batchesLength)).join(", "),
+      "Finished": state.finished,
+      "Remaining ETH budget": formatEther(state.remainingEthBudget),
+    });
+  }
+
+  const batches: bigint[] = state.batches.slice(0, Number(state.batchesLength));
+  if (batches.length === 0) {
+    return {
+      batches,
+      details: [],
+      ethToLock: 0n,
+      sharesToBurn: 0n,
+      remainingEthBudget: state.remainingEthBudget,
+      calls,
+    };
+  }
+
+  const lastFinalizedRequest = await readWithdrawalRequest(ctx, await withdrawalQueue.getLastFinalizedRequestId());
+  const batchEndRequests = await Promise.all(batches.map((id) => readWithdrawalRequest(ctx, id)));
+
+  const details = describeFinalizationBatches(lastFinalizedRequest, batchEndRequests, maxShareRate);
+  const { ethToLock, sharesToBurn } = await withdrawalQueue.prefinalize(batches, maxShareRate);
+
+  return { batches, details, ethToLock, sharesToBurn, remainingEthBudget: state.remainingEthBudget, calls };
+};
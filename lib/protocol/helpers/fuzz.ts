@@ -0,0 +1,452 @@
+import { formatEther, isError } from "ethers";
+import { ethers } from "hardhat";
+
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+
+import { BigIntMath, ether, log, streccak, trace, updateBalance } from "lib";
+
+import { ProtocolContext } from "../types";
+
+import { NodeOperatorValidatorsDelta, report } from "./accounting";
+import { depositBufferedEtherWithGuardians, GuardianCommittee, setupGuardianCommittee } from "./dsm";
+import { checkProtocolInvariants, InvariantViolation } from "./invariants";
+import { norAddOperatorKeys, norSetOperatorStakingLimit } from "./nor.helper";
+
+export type FuzzAction =
+  | { type: "submit"; actor: number; amount: bigint }
+  | { type: "requestWithdrawal"; actor: number; amount: bigint }
+  | { type: "deposit"; moduleId: bigint }
+  | {
+      type: "report";
+      clDiff: bigint;
+      clAppearedValidators: bigint;
+      elRewards: bigint;
+      exited: NodeOperatorValidatorsDelta[];
+    }
+  | { type: "burn"; actor: number; amount: bigint; forCover: boolean }
+  | { type: "addKeys"; operatorId: bigint; keysToAdd: bigint };
+
+type FuzzSession = {
+  actors: HardhatEthersSigner[];
+  committee: GuardianCommittee;
+};
+
+export type FuzzOptions = {
+  seed: number;
+  steps: number;
+  actorsCount: number;
+};
+
+const DEFAULT_ACTORS_COUNT = 5;
+const ACTOR_BALANCE = ether("100000");
+const MIN_WITHDRAWAL_AMOUNT = 100n; // WithdrawalQueue.MIN_STETH_WITHDRAWAL_AMOUNT
+const MAX_WITHDRAWAL_AMOUNT = ether("1000"); // WithdrawalQueue.MAX_STETH_WITHDRAWAL_AMOUNT
+const MAX_KEYS_TO_ADD = 5n;
+const REQUEST_BURN_MY_STETH_ROLE = streccak("REQUEST_BURN_MY_STETH_ROLE");
+
+/**
+ * Deterministic pseudo-random generator (mulberry32), the same seed always produces the same sequence.
+ */
+class FuzzRandom {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  int(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  pick<T>(items: T[]): T {
+    return items[this.int(items.length)];
+  }
+
+  /**
+   * Random bigint in [min, max], built from 32-bit chunks to cover the wei amounts.
+   */
+  bigint(min: bigint, max: bigint): bigint {
+    if (max <= min) return min;
+    const range = max - min + 1n;
+    let value = 0n;
+    for (let bits = 0n; 1n << bits < range; bits += 32n) {
+      value = (value << 32n) | BigInt(Math.floor(this.next() * 4294967296));
+    }
+    return min + (value % range);
+  }
+}
+
+/**
+ * Prepare the accounts that act in the fuzzing session: funded and allowed to request burns,
+ * and the guardian committee that attests the deposits.
+ */
+const getFuzzSession = async (ctx: ProtocolContext, actorsCount: number): Promise<FuzzSession> => {
+  const { burner } = ctx.contracts;
+
+  // The last signers are used to avoid clashing with the accounts of the other tests
+  const actors = (await ethers.getSigners()).slice(-actorsCount);
+  const agentSigner = await ctx.getSigner("agent");
+
+  for (const actor of actors) {
+    await updateBalance(actor.address, ACTOR_BALANCE);
+    if (!(await burner.hasRole(REQUEST_BURN_MY_STETH_ROLE, actor.address))) {
+      await burner.connect(agentSigner).grantRole(REQUEST_BURN_MY_STETH_ROLE, actor.address);
+    }
+  }
+
+  const committee = await setupGuardianCommittee(ctx);
+
+  return { actors, committee };
+};
+
+const generateReportAction = async (ctx: ProtocolContext, random: FuzzRandom): Promise<FuzzAction> => {
+  const { lido, stakingRouter } = ctx.contracts;
+
+  const { depositedValidators, beaconValidators, beaconBalance } = await lido.getBeaconStat();
+  const clAppearedValidators = random.bigint(0n, depositedValidators - beaconValidators);
+
+  // Keep the rebase close to the sanity checker limits, from -0.01% to +0.02% of the CL balance
+  const rewards = random.bigint(-beaconBalance / 10000n, beaconBalance / 5000n);
+  const clDiff = clAppearedValidators * ether("32") + rewards;
+
+  const elRewards = random.chance(0.5) ? random.bigint(0n, ether("10")) : 0n;
+
+  const exited: NodeOperatorValidatorsDelta[] = [];
+  if (random.chance(0.3)) {
+    const module = random.pick(ctx.modules);
+    const { nodeOperatorsCount } = (await stakingRouter.getStakingModuleDigests([module.id]))[0];
+    if (nodeOperatorsCount > 0n) {
+      const nodeOpId = random.int(Number(nodeOperatorsCount));
+      const summary = await stakingRouter.getNodeOperatorSummary(module.id, nodeOpId);
+      if (summary.totalDepositedValidators > summary.totalExitedValidators) {
+        exited.push({ moduleId: Number(module.id), nodeOpId, exited: 1 });
+      }
+    }
+  }
+
+  return { type: "report", clDiff, clAppearedValidators, elRewards, exited };
+};
+
+/**
+ * Generate a random action based on the current protocol state, so that most of the actions are feasible.
+ */
+const generateAction = async (
+  ctx: ProtocolContext,
+  random: FuzzRandom,
+  actors: HardhatEthersSigner[],
+): Promise<FuzzAction> => {
+  const { lido, nor } = ctx.contracts;
+
+  const actor = random.int(actors.length);
+  const stEthBalance = await lido.balanceOf(actors[actor].address);
+
+  switch (random.int(6)) {
+    case 0: {
+      const limit = BigIntMath.min(await lido.getCurrentStakeLimit(), ether("1000"));
+      if (limit > 0n) return { type: "submit", actor, amount: random.bigint(1n, limit) };
+      break;
+    }
+    case 1: {
+      const max = BigIntMath.min(stEthBalance, MAX_WITHDRAWAL_AMOUNT);
+      if (max >= MIN_WITHDRAWAL_AMOUNT) {
+        return { type: "requestWithdrawal", actor, amount: random.bigint(MIN_WITHDRAWAL_AMOUNT, max) };
+      }
+      break;
+    }
+    case 2: {
+      const { id } = random.pick(ctx.modules);
+      return { type: "deposit", moduleId: id };
+    }
+    case 3:
+      return generateReportAction(ctx, random);
+    case 4:
+      if (stEthBalance > 1n) {
+        return {
+          type: "burn",
+          actor,
+          amount: random.bigint(1n, stEthBalance / 100n + 1n),
+          forCover: random.chance(0.5),
+        };
+      }
+      break;
+    case 5: {
+      const operatorsCount = await nor.getNodeOperatorsCount();
+      if (operatorsCount > 0n) {
+        return {
+          type: "addKeys",
+          operatorId: random.bigint(0n, operatorsCount - 1n),
+          keysToAdd: random.bigint(1n, MAX_KEYS_TO_ADD),
+        };
+      }
+      break;
+    }
+  }
+
+  // Fallback to the action that is always possible with the funded actors
+  return { type: "submit", actor, amount: random.bigint(1n, ether("10")) };
+};
+
+// Hardhat network reports the reverted transactions with these messages instead of the ethers CALL_EXCEPTION
+const HARDHAT_REVERT_MESSAGES = [
+  "VM Exception while processing transaction: revert",
+  "Transaction reverted without a reason",
+  "Transaction reverted: ",
+];
+
+/**
+ * Check whether the error is the contract revert, the only error the protocol may reject the action with.
+ * Assertion failures and the invariant errors of the helpers are not reverts and must fail the session.
+ */
+const isContractRevert = (error: unknown) => {
+  if (isError(error, "CALL_EXCEPTION")) {
+    return true;
+  }
+
+  if (!(error instanceof Error) || error.name === "AssertionError") {
+    return false;
+  }
+
+  return HARDHAT_REVERT_MESSAGES.some((message) => error.message.includes(message));
+};
+
+/**
+ * Execute the action through the protocol helpers.
+ * Returns the revert reason if the action was rejected by the protocol, rejected actions don't fail the session.
+ * Any other error is rethrown.
+ */
+const executeAction = async (
+  ctx: ProtocolContext,
+  { actors, committee }: FuzzSession,
+  action: FuzzAction,
+): Promise<string | null> => {
+  const { lido, withdrawalQueue, burner, elRewardsVault, nor, stakingRouter } = ctx.contracts;
+
+  try {
+    switch (action.type) {
+      case "submit": {
+        const tx = await lido
+          .connect(actors[action.actor])
+          .submit(actors[action.actor].address, { value: action.amount });
+        await trace("lido.submit", tx);
+        break;
+      }
+      case "requestWithdrawal": {
+        const actor = actors[action.actor];
+        await lido.connect(actor).approve(withdrawalQueue.address, action.amount);
+        const tx = await withdrawalQueue.connect(actor).requestWithdrawals([action.amount], actor.address);
+        await trace("withdrawalQueue.requestWithdrawals", tx);
+        break;
+      }
+      case "deposit": {
+        // The DSM doesn't deposit in the bunker mode or to the inactive module, the helper would throw on it.
+        // The deposit block distance is not checked here, the helper mines the blocks to pass it
+        if (!(await lido.canDeposit())) {
+          return "Lido can't deposit";
+        }
+        if (!(await stakingRouter.getStakingModuleIsActive(action.moduleId))) {
+          return `Staking module ${action.moduleId} is not active`;
+        }
+        await depositBufferedEtherWithGuardians(ctx, committee, action.moduleId, actors[0]);
+        break;
+      }
+      case "report": {
+        if (action.elRewards > 0n) {
+          const tx = await actors[0].sendTransaction({ to: elRewardsVault.address, value: action.elRewards });
+          await trace("elRewardsVault.receive", tx);
+        }
+        await report(ctx, {
+          clDiff: action.clDiff,
+          clAppearedValidators: action.clAppearedValidators,
+          validatorsDelta: action.exited,
+        });
+        break;
+      }
+      case "burn": {
+        const actor = actors[action.actor];
+        await lido.connect(actor).approve(burner.address, action.amount);
+        const tx = action.forCover
+          ? await burner.connect(actor).requestBurnMyStETHForCover(action.amount)
+          : await burner.connect(actor).requestBurnMyStETH(action.amount);
+        await trace("burner.requestBurnMyStETH", tx);
+        break;
+      }
+      case "addKeys": {
+        await norAddOperatorKeys(ctx, { operatorId: action.operatorId, keysToAdd: action.keysToAdd });
+        const limit = await nor.getTotalSigningKeyCount(action.operatorId);
+        await norSetOperatorStakingLimit(ctx, { operatorId: action.operatorId, limit });
+        break;
+      }
+    }
+  } catch (error) {
+    if (!isContractRevert(error)) {
+      throw error;
+    }
+
+    if (isError(error, "CALL_EXCEPTION") && error.revert) {
+      return error.revert.name;
+    }
+
+    return (error as Error).message.split("\n")[0];
+  }
+
+  return null;
+};
+
+const formatAction = (action: FuzzAction) =>
+  JSON.stringify(action, (_, value) => (typeof value === "bigint" ? `${value}n` : value)).replace(/"(-?\d+n)"/g, "$1");
+
+/**
+ * Build a mocha test that replays the actions, to be put into `test/integration`.
+ */
+export const formatFuzzReplayScript = (seed: number, actions: FuzzAction[], actorsCount = DEFAULT_ACTORS_COUNT) =>
+  [
+    `// Replay of the fuzzing session with seed ${seed}`,
+    `import { getProtocolContext } from "lib/protocol";`,
+    `import { replayFuzzActions } from "lib/protocol/helpers";`,
+    ``,
+    `describe("Fuzz replay (seed ${seed})", () => {`,
+    `  it("Should keep the protocol invariants", async () => {`,
+    `    const ctx = await getProtocolContext();`,
+    `    await replayFuzzActions(ctx, [`,
+    ...actions.map((action) => `      ${formatAction(action)},`),
+    `    ], ${actorsCount});`,
+    `  });`,
+    `});`,
+  ].join("\n");
+
+/**
+ * Run the actions one by one until the first invariants violation.
+ * Returns the rejection reasons of the executed actions and the violation along with the index of the action.
+ */
+const runActions = async (ctx: ProtocolContext, session: FuzzSession, actions: FuzzAction[]) => {
+  const rejections: (string | null)[] = [];
+  for (const [index, action] of actions.entries()) {
+    rejections.push(await executeAction(ctx, session, action));
+    const violations = await checkProtocolInvariants(
+      ctx,
+      session.actors.map(({ address }) => address),
+    );
+    if (violations.length > 0) {
+      return { rejections, failure: { index, violations } };
+    }
+  }
+  return { rejections, failure: null };
+};
+
+/**
+ * Shrink the failing sequence by removing chunks of actions while the replay still violates the invariants.
+ */
+const shrinkActions = async (
+  ctx: ProtocolContext,
+  session: FuzzSession,
+  actions: FuzzAction[],
+  initialSnapshot: { id: string },
+) => {
+  const fails = async (candidate: FuzzAction[]) => {
+    await ethers.provider.send("evm_revert", [initialSnapshot.id]);
+    initialSnapshot.id = await ethers.provider.send("evm_snapshot", []);
+    return (await runActions(ctx, session, candidate)).failure !== null;
+  };
+
+  let minimal = actions;
+  for (let chunkSize = Math.ceil(minimal.length / 2); chunkSize >= 1; chunkSize = Math.floor(chunkSize / 2)) {
+    for (let start = 0; start < minimal.length;) {
+      const candidate = [...minimal.slice(0, start), ...minimal.slice(start + chunkSize)];
+      if (candidate.length > 0 && (await fails(candidate))) {
+        minimal = candidate;
+      } else {
+        start += chunkSize;
+      }
+    }
+  }
+
+  log.debug("Fuzzing sequence shrunk", { "Original length": actions.length, "Minimal length": minimal.length });
+
+  return minimal;
+};
+
+const formatViolations = (violations: InvariantViolation[]) =>
+  violations.map(({ name, message }) => `  - ${name}: ${message}`).join("\n");
+
+/**
+ * Drive a random sequence of protocol actions and check the invariants after each step.
+ * On a violation the sequence is shrunk and the error contains a minimal replay script.
+ */
+export const fuzzProtocol = async (
+  ctx: ProtocolContext,
+  { seed, steps, actorsCount = DEFAULT_ACTORS_COUNT }: Partial<FuzzOptions> & Pick<FuzzOptions, "seed" | "steps">,
+) => {
+  const random = new FuzzRandom(seed);
+  const session = await getFuzzSession(ctx, actorsCount);
+
+  const initialSnapshot = { id: await ethers.provider.send("evm_snapshot", []) };
+
+  log.debug("Fuzzing session", { Seed: seed, Steps: steps, Actors: actorsCount });
+
+  const actions: FuzzAction[] = [];
+  for (let step = 0; step < steps; step++) {
+    const action = await generateAction(ctx, random, session.actors);
+    actions.push(action);
+
+    const rejection = await executeAction(ctx, session, action);
+    log.debug(`Fuzzing step ${step}`, {
+      "Action": formatAction(action),
+      "Result": rejection ?? "ok",
+      "Total pooled ether": formatEther(await ctx.contracts.lido.getTotalPooledEther()),
+    });
+
+    const violations = await checkProtocolInvariants(
+      ctx,
+      session.actors.map(({ address }) => address),
+    );
+    if (violations.length > 0) {
+      log.error(`Protocol invariants violated at step ${step} of the fuzzing session with seed ${seed}`);
+
+      const minimal = await shrinkActions(ctx, session, actions, initialSnapshot);
+      const script = formatFuzzReplayScript(seed, minimal, actorsCount);
+
+      throw new Error(
+        `Protocol invariants violated at step ${step} (seed ${seed}):\n${formatViolations(violations)}\n\n` +
+          `Minimal replay (${minimal.length} of ${actions.length} actions):\n${script}`,
+      );
+    }
+  }
+
+  log.success(`Fuzzing session with seed ${seed} passed ${steps} steps`);
+
+  return actions;
+};
+
+/**
+ * Replay the actions recorded by the fuzzer, throws on the first invariants violation.
+ * Returns the rejection reason of each action, `null` for the executed ones.
+ */
+export const replayFuzzActions = async (
+  ctx: ProtocolContext,
+  actions: FuzzAction[],
+  actorsCount = DEFAULT_ACTORS_COUNT,
+) => {
+  const session = await getFuzzSession(ctx, actorsCount);
+
+  const { rejections, failure } = await runActions(ctx, session, actions);
+  if (failure) {
+    throw new Error(
+      `Protocol invariants violated after action ${failure.index} ${formatAction(actions[failure.index])}:\n` +
+        formatViolations(failure.violations),
+    );
+  }
+
+  return rejections;
+};
@@ -1,10 +1,22 @@
 export { unpauseStaking, ensureStakeLimit } from "./staking";
 
-export { unpauseWithdrawalQueue, finalizeWithdrawalQueue } from "./withdrawal";
+export {
+  unpauseWithdrawalQueue,
+  finalizeWithdrawalQueue,
+  requestWithdrawals,
+  requestWithdrawalsWithPermit,
+  requestWithdrawalsWstETH,
+  requestWithdrawalsWstETHWithPermit,
+  finalizeUpTo,
+  claimAll,
+} from "./withdrawal";
 
 export {
   OracleReportOptions,
   OracleReportPushOptions,
+  BunkerModeScenario,
+  BunkerModeSlashing,
+  NodeOperatorValidatorsDelta,
   ensureHashConsensusInitialEpoch,
   ensureOracleCommitteeMembers,
   getReportTimeElapsed,
@@ -14,6 +26,105 @@ export {
   report,
 } from "./accounting";
 
+export {
+  AccountingModelState,
+  FinalizationBatchesModelParams,
+  OracleReportModelInput,
+  OracleReportModelResult,
+  RewardsDistributionModel,
+  WithdrawalRequestModel,
+  modelOracleReport,
+  modelOracleReportWithFinalization,
+  modelFinalizationBatches,
+  modelPrefinalize,
+  readAccountingModelState,
+  readWithdrawalRequest,
+  serializeAccountingModelState,
+  deserializeAccountingModelState,
+} from "./accountingModel";
+
+export {
+  FinalizationBatch,
+  FinalizationBatchesParams,
+  FinalizationBatchesPlan,
+  calculateFinalizationBatches,
+  describeFinalizationBatches,
+} from "./finalizationBatches";
+
+export {
+  ReportLimitCheck,
+  ReportLimitViolation,
+  ReportPlan,
+  ReportPlanParams,
+  planReport,
+  clampReportToLimits,
+  clampFinalizationBatches,
+} from "./reportPlanner";
+
+export { ReportFinalization, ReportModuleFee, ReportOutcome, decodeReportOutcome } from "./reportOutcome";
+
+export {
+  getConsensusTimeConfig,
+  getCurrentSlot,
+  advanceToSlot,
+  advanceToEpoch,
+  advanceToFrameStart,
+  advanceIntoFastLane,
+  advanceToDeadline,
+} from "./clock";
+
+export {
+  DepositAttestation,
+  GuardianCommittee,
+  GuardianCommitteeOptions,
+  PauseIntent,
+  setupGuardianCommittee,
+  signDepositAttestation,
+  depositBufferedEtherWithGuardians,
+  buildPauseIntent,
+  isPauseIntentExpired,
+  pauseDepositsWithIntent,
+  pauseDepositsAsGuardian,
+  unpauseDeposits,
+} from "./dsm";
+
+export { ExitBusReportOptions, unpauseValidatorsExitBusOracle, exitBusReport } from "./exitBus";
+
+export {
+  InvariantViolation,
+  checkProtocolInvariants,
+  ensureProtocolInvariants,
+  maybeEnsureProtocolInvariants,
+} from "./invariants";
+
+export { FuzzAction, FuzzOptions, formatFuzzReplayScript, fuzzProtocol, replayFuzzActions } from "./fuzz";
+
+export {
+  SimulationOptions,
+  SimulationTimelineEntry,
+  simulateDays,
+  simulationTimelineToCsv,
+  simulationTimelineToJson,
+} from "./simulation";
+
+export {
+  ProtocolState,
+  ProtocolStateChange,
+  ProtocolStateDiff,
+  ProtocolStateValue,
+  snapshotProtocolState,
+  diffProtocolState,
+} from "./state";
+
 export { sdvtEnsureOperators } from "./sdvt.helper";
 
-export { norEnsureOperators } from "./nor.helper";
+export {
+  NorSigningKeysSender,
+  NorSigningKeysUploadOptions,
+  NorSigningKeysUploadResult,
+  NOR_MANAGER_GAS_BALANCE,
+  norEnsureOperators,
+  norAddOperatorKeys,
+  norAddOperatorDepositDataKeys,
+  norUploadSigningKeys,
+} from "./nor.helper";
@@ -0,0 +1,185 @@
+import { ethers } from "hardhat";
+
+import { BigIntMath, ether, log } from "lib";
+
+import { ProtocolContext } from "../types";
+
+export type InvariantViolation = {
+  name: string;
+  message: string;
+};
+
+const WITHDRAWAL_STATUS_BATCH_SIZE = 500n;
+const DEPOSIT_SIZE = ether("32");
+
+/**
+ * Total pooled ether is the sum of the buffered, CL and transient ether, and its parts are backed by
+ * the independent sources: the buffered ether by the Lido balance, and the transient ether by the deposited
+ * validators that are not on CL yet.
+ */
+const checkPooledEther = async (ctx: ProtocolContext): Promise<InvariantViolation[]> => {
+  const { lido } = ctx.contracts;
+
+  const bufferedEther = await lido.getBufferedEther();
+  const balance = await ethers.provider.getBalance(lido.address);
+  const { depositedValidators, beaconValidators, beaconBalance } = await lido.getBeaconStat();
+  const totalPooledEther = await lido.getTotalPooledEther();
+
+  const violations: InvariantViolation[] = [];
+
+  const transientEther = (depositedValidators - beaconValidators) * DEPOSIT_SIZE;
+  const expectedTotalPooledEther = bufferedEther + beaconBalance + transientEther;
+  if (totalPooledEther !== expectedTotalPooledEther) {
+    violations.push({
+      name: "lido.totalPooledEther",
+      message:
+        `${totalPooledEther} != buffered ${bufferedEther} + CL ${beaconBalance} + transient ${transientEther}` +
+        ` (diff ${totalPooledEther - expectedTotalPooledEther})`,
+    });
+  }
+
+  if (balance < bufferedEther) {
+    violations.push({
+      name: "lido.bufferedEther",
+      message: `buffered ${bufferedEther} isn't covered by the balance ${balance}`,
+    });
+  }
+
+  if (beaconValidators > depositedValidators) {
+    violations.push({
+      name: "lido.beaconValidators",
+      message: `${beaconValidators} validators on CL exceed ${depositedValidators} deposited`,
+    });
+  }
+
+  return violations;
+};
+
+/**
+ * Shares of the known holders fit into the total shares, and the burner holds every share requested to burn.
+ * The protocol contracts, the treasury and the staking modules are always known, `holders` adds the others.
+ */
+const checkShares = async (ctx: ProtocolContext, holders: string[]): Promise<InvariantViolation[]> => {
+  const { lido, burner, withdrawalQueue, locator } = ctx.contracts;
+
+  const knownHolders = new Set(
+    [
+      burner.address,
+      withdrawalQueue.address,
+      await locator.treasury(),
+      ...ctx.modules.map(({ address }) => address),
+      ...holders,
+    ].map((address) => address.toLowerCase()),
+  );
+
+  let holdersShares = 0n;
+  for (const holder of knownHolders) {
+    holdersShares += await lido.sharesOf(holder);
+  }
+
+  const totalShares = await lido.getTotalShares();
+  const burnerShares = await lido.sharesOf(burner.address);
+  const [coverShares, nonCoverShares] = await burner.getSharesRequestedToBurn();
+
+  const violations: InvariantViolation[] = [];
+
+  if (holdersShares > totalShares) {
+    violations.push({
+      name: "lido.totalShares",
+      message: `${knownHolders.size} known holders have ${holdersShares} shares, more than total ${totalShares}`,
+    });
+  }
+
+  if (coverShares + nonCoverShares > burnerShares) {
+    violations.push({
+      name: "burner.sharesRequestedToBurn",
+      message: `requested cover ${coverShares} + non-cover ${nonCoverShares} exceed burner shares ${burnerShares}`,
+    });
+  }
+
+  return violations;
+};
+
+/**
+ * Locked ether is covered by the queue balance, unfinalized stETH and shares match the unfinalized requests.
+ */
+const checkWithdrawalQueue = async (ctx: ProtocolContext): Promise<InvariantViolation[]> => {
+  const { lido, withdrawalQueue } = ctx.contracts;
+
+  const violations: InvariantViolation[] = [];
+
+  const lockedEther = await withdrawalQueue.getLockedEtherAmount();
+  const balance = await ethers.provider.getBalance(withdrawalQueue.address);
+  if (balance < lockedEther) {
+    violations.push({
+      name: "withdrawalQueue.lockedEther",
+      message: `locked ${lockedEther} isn't covered by the balance ${balance}`,
+    });
+  }
+
+  const lastFinalizedRequestId = await withdrawalQueue.getLastFinalizedRequestId();
+  const lastRequestId = await withdrawalQueue.getLastRequestId();
+
+  let requestsStETH = 0n;
+  let requestsShares = 0n;
+  for (let from = lastFinalizedRequestId + 1n; from <= lastRequestId; from += WITHDRAWAL_STATUS_BATCH_SIZE) {
+    const to = BigIntMath.min(from + WITHDRAWAL_STATUS_BATCH_SIZE - 1n, lastRequestId);
+    const ids = Array.from({ length: Number(to - from + 1n) }, (_, i) => from + BigInt(i));
+
+    for (const status of await withdrawalQueue.getWithdrawalStatus(ids)) {
+      requestsStETH += status.amountOfStETH;
+      requestsShares += status.amountOfShares;
+    }
+  }
+
+  const unfinalizedStETH = await withdrawalQueue.unfinalizedStETH();
+  if (unfinalizedStETH !== requestsStETH) {
+    violations.push({
+      name: "withdrawalQueue.unfinalizedStETH",
+      message: `${unfinalizedStETH} != ${requestsStETH} stETH of requests ${lastFinalizedRequestId + 1n}..${lastRequestId}`,
+    });
+  }
+
+  const queueShares = await lido.sharesOf(withdrawalQueue.address);
+  if (queueShares < requestsShares) {
+    violations.push({
+      name: "withdrawalQueue.shares",
+      message: `queue holds ${queueShares} shares, unfinalized requests need ${requestsShares}`,
+    });
+  }
+
+  return violations;
+};
+
+/**
+ * Check the protocol accounting invariants on the current block, `holders` are the stETH holders known to the caller.
+ */
+export const checkProtocolInvariants = async (
+  ctx: ProtocolContext,
+  holders: string[] = [],
+): Promise<InvariantViolation[]> => {
+  return [...(await checkPooledEther(ctx)), ...(await checkShares(ctx, holders)), ...(await checkWithdrawalQueue(ctx))];
+};
+
+/**
+ * Throw if any of the protocol invariants is violated, `step` names the action that was just made.
+ */
+export const ensureProtocolInvariants = async (ctx: ProtocolContext, step = "") => {
+  const violations = await checkProtocolInvariants(ctx);
+
+  if (violations.length > 0) {
+    const details = violations.map(({ name, message }) => `  - ${name}: ${message}`).join("\n");
+    throw new Error(`Protocol invariants violated${step ? ` after ${step}` : ""}:\n${details}`);
+  }
+
+  log.debug("Protocol invariants", { Step: step || "-", Violations: 0 });
+};
+
+/**
+ * Run the invariant checks if they are enabled with INTEGRATION_INVARIANT_CHECKS=on.
+ */
+export const maybeEnsureProtocolInvariants = async (ctx: ProtocolContext, step: string) => {
+  if (ctx.flags.withInvariantChecks) {
+    await ensureProtocolInvariants(ctx, step);
+  }
+};
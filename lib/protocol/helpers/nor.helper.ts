@@ -1,7 +1,10 @@
 import { expect } from "chai";
 import { randomBytes } from "ethers";
+import { ethers } from "hardhat";
 
-import { certainAddress, log, trace } from "lib";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+
+import { certainAddress, ether, impersonate, log, trace, ValidatorKeys } from "lib";
 
 import { ProtocolContext, StakingModuleName } from "../types";
 
@@ -11,6 +14,30 @@ const MIN_OP_KEYS_COUNT = 10n;
 const PUBKEY_LENGTH = 48n;
 const SIGNATURE_LENGTH = 96n;
 
+// Share of the block gas limit a single upload transaction may take, in basis points
+const UPLOAD_GAS_LIMIT_SHARE_BP = 9000n;
+
+// Added to the operator manager balance when it's lower, enough to pay the gas of the upload transactions
+export const NOR_MANAGER_GAS_BALANCE = ether("100");
+
+/**
+ * Who sends the keys to the NOR: the operator manager (its reward address) via `addSigningKeysOperatorBH`,
+ * or the `MANAGE_SIGNING_KEYS` role holder (the voting) via `addSigningKeys`.
+ */
+export type NorSigningKeysSender = "manager" | "roleHolder";
+
+export type NorSigningKeysUploadOptions = {
+  sender: NorSigningKeysSender;
+  startIndex: bigint; // operator key index of the first key, the total keys count of the operator by default
+  maxGasPerTx: bigint; // 90% of the block gas limit by default
+};
+
+export type NorSigningKeysUploadResult = {
+  startIndex: bigint;
+  uploadedKeys: bigint; // in this call, the keys uploaded before the resume are not counted
+  batches: bigint[]; // keys count of each transaction
+};
+
 export const norEnsureOperators = async (
   ctx: ProtocolContext,
   minOperatorsCount = MIN_OPS_COUNT,
@@ -131,33 +158,35 @@ export const norAddNodeOperator = async (
 };
 
 /**
- * Adds some signing keys to the operator in the NOR.
+ * Adds some signing keys to the operator in the NOR, the given ones or random fake keys.
  */
 export const norAddOperatorKeys = async (
   ctx: ProtocolContext,
   params: {
     operatorId: bigint;
     keysToAdd: bigint;
+    keys?: ValidatorKeys;
   },
 ) => {
   const { nor } = ctx.contracts;
-  const { operatorId, keysToAdd } = params;
+  const { operatorId, keysToAdd, keys } = params;
+
+  if (keys && BigInt(keys.count) !== keysToAdd) {
+    throw new Error(`Keys to add ${keysToAdd} don't match the ${keys.count} given keys`);
+  }
 
-  log.warning(`Adding fake keys to NOR operator ${operatorId}`);
+  log.warning(`Adding ${keys ? "" : "fake "}keys to NOR operator ${operatorId}`);
 
   const totalKeysBefore = await nor.getTotalSigningKeyCount(operatorId);
   const unusedKeysBefore = await nor.getUnusedSigningKeyCount(operatorId);
 
   const votingSigner = await ctx.getSigner("voting");
 
-  const addKeysTx = await nor
-    .connect(votingSigner)
-    .addSigningKeys(
-      operatorId,
-      keysToAdd,
-      randomBytes(Number(keysToAdd * PUBKEY_LENGTH)),
-      randomBytes(Number(keysToAdd * SIGNATURE_LENGTH)),
-    );
+  const [publicKeys, signatures] = keys
+    ? keys.slice()
+    : [randomBytes(Number(keysToAdd * PUBKEY_LENGTH)), randomBytes(Number(keysToAdd * SIGNATURE_LENGTH))];
+
+  const addKeysTx = await nor.connect(votingSigner).addSigningKeys(operatorId, keysToAdd, publicKeys, signatures);
   await trace("nodeOperatorRegistry.addSigningKeys", addKeysTx);
 
   const totalKeysAfter = await nor.getTotalSigningKeyCount(operatorId);
@@ -175,13 +204,245 @@ export const norAddOperatorKeys = async (
     "Unused keys after": unusedKeysAfter,
   });
 
-  log.success(`Added fake keys to NOR operator ${operatorId}`);
+  log.success(`Added ${keys ? "" : "fake "}keys to NOR operator ${operatorId}`);
+};
+
+const getSigningKeysSender = async (ctx: ProtocolContext, operatorId: bigint, sender: NorSigningKeysSender) => {
+  const { nor } = ctx.contracts;
+
+  if (sender === "roleHolder") {
+    return ctx.getSigner("voting");
+  }
+
+  const { active, rewardAddress } = await nor.getNodeOperator(operatorId, false);
+  if (!active) {
+    throw new Error(`NOR operator ${operatorId} is not active, its manager can't add the keys`);
+  }
+
+  // The reward address is the real operator account on the fork, keep its balance and only add the gas money
+  const balance = await ethers.provider.getBalance(rewardAddress);
+  return impersonate(rewardAddress, balance < NOR_MANAGER_GAS_BALANCE ? balance + NOR_MANAGER_GAS_BALANCE : undefined);
+};
+
+const addSigningKeysBatch = (
+  ctx: ProtocolContext,
+  signer: HardhatEthersSigner,
+  sender: NorSigningKeysSender,
+  operatorId: bigint,
+  keysCount: bigint,
+  [publicKeys, signatures]: string[],
+) => {
+  const nor = ctx.contracts.nor.connect(signer);
+
+  return sender === "manager"
+    ? nor.addSigningKeysOperatorBH(operatorId, keysCount, publicKeys, signatures)
+    : nor.addSigningKeys(operatorId, keysCount, publicKeys, signatures);
+};
+
+const estimateSigningKeysBatchGas = (
+  ctx: ProtocolContext,
+  signer: HardhatEthersSigner,
+  sender: NorSigningKeysSender,
+  operatorId: bigint,
+  keysCount: bigint,
+  [publicKeys, signatures]: string[],
+): Promise<bigint> => {
+  const nor = ctx.contracts.nor.connect(signer);
+
+  return sender === "manager"
+    ? nor.addSigningKeysOperatorBH.estimateGas(operatorId, keysCount, publicKeys, signatures)
+    : nor.addSigningKeys.estimateGas(operatorId, keysCount, publicKeys, signatures);
+};
+
+/**
+ * Check the keys stored in the NOR from `operatorKeyIndex` against the given ones starting from `keyIndex`.
+ */
+const verifyStoredSigningKeys = async (
+  ctx: ProtocolContext,
+  operatorId: bigint,
+  operatorKeyIndex: bigint,
+  keys: ValidatorKeys,
+  keyIndex: number,
+  count: number,
+) => {
+  const { nor } = ctx.contracts;
+
+  if (count === 0) {
+    return;
+  }
+
+  const stored = await nor.getSigningKeys(operatorId, operatorKeyIndex, count);
+  const storedPubkeys = stored.pubkeys.slice(2).toLowerCase();
+  const storedSignatures = stored.signatures.slice(2).toLowerCase();
+
+  const pubkeyLength = Number(PUBKEY_LENGTH) * 2;
+  const signatureLength = Number(SIGNATURE_LENGTH) * 2;
+
+  for (let i = 0; i < count; i++) {
+    const pubkey = storedPubkeys.slice(i * pubkeyLength, (i + 1) * pubkeyLength);
+    const signature = storedSignatures.slice(i * signatureLength, (i + 1) * signatureLength);
+
+    if (
+      pubkey !== keys.publicKeysList[keyIndex + i].toLowerCase() ||
+      signature !== keys.signaturesList[keyIndex + i].toLowerCase()
+    ) {
+      throw new Error(
+        `NOR operator ${operatorId} key ${operatorKeyIndex + BigInt(i)} doesn't match the key ${keyIndex + i} to upload`,
+      );
+    }
+  }
+};
+
+/**
+ * Uploads the keys to the operator in the NOR in batches that fit into the block gas limit.
+ *
+ * The batch size comes from the gas estimate of one and two keys and is halved until the batch estimate fits
+ * `maxGasPerTx`. Every stored batch is read back with `getSigningKeys` and compared with the uploaded keys.
+ * If the upload fails midway, call it again with the same keys and the `startIndex` from the error: the keys
+ * already stored since `startIndex` are checked and skipped according to `getTotalSigningKeyCount`.
+ */
+export const norUploadSigningKeys = async (
+  ctx: ProtocolContext,
+  operatorId: bigint,
+  keys: ValidatorKeys,
+  options: Partial<NorSigningKeysUploadOptions> = {},
+): Promise<NorSigningKeysUploadResult> => {
+  const { nor } = ctx.contracts;
+  const { sender = "roleHolder" } = options;
+
+  const totalKeysBefore: bigint = await nor.getTotalSigningKeyCount(operatorId);
+  const startIndex = options.startIndex ?? totalKeysBefore;
+
+  const storedKeys = totalKeysBefore - startIndex;
+  if (storedKeys < 0n || storedKeys > BigInt(keys.count)) {
+    throw new Error(
+      `NOR operator ${operatorId} has ${totalKeysBefore} keys, can't resume the upload of ${keys.count} keys from ${startIndex}`,
+    );
+  }
+
+  await verifyStoredSigningKeys(ctx, operatorId, startIndex, keys, 0, Number(storedKeys));
+
+  const block = await ethers.provider.getBlock("latest");
+  const maxGasPerTx = options.maxGasPerTx ?? (block!.gasLimit * UPLOAD_GAS_LIMIT_SHARE_BP) / 10000n;
+
+  const signer = await getSigningKeysSender(ctx, operatorId, sender);
+
+  const batches: bigint[] = [];
+  let keyIndex = Number(storedKeys);
+  let batchSize = 0n;
+
+  while (keyIndex < keys.count) {
+    const remainingKeys = BigInt(keys.count - keyIndex);
+
+    if (batchSize === 0n) {
+      const estimate = (count: bigint) =>
+        estimateSigningKeysBatchGas(
+          ctx,
+          signer,
+          sender,
+          operatorId,
+          count,
+          keys.slice(keyIndex, keyIndex + Number(count)),
+        );
+
+      const oneKeyGas = await estimate(1n);
+      const twoKeysGas = remainingKeys > 1n ? await estimate(2n) : oneKeyGas * 2n;
+      const gasPerKey = twoKeysGas > oneKeyGas ? twoKeysGas - oneKeyGas : oneKeyGas;
+      const baseGas = oneKeyGas - gasPerKey;
+
+      if (oneKeyGas > maxGasPerTx) {
+        throw new Error(`A single key upload takes ${oneKeyGas} gas, which exceeds the limit of ${maxGasPerTx}`);
+      }
+
+      batchSize = (maxGasPerTx - baseGas) / gasPerKey;
+
+      log.debug("NOR signing keys gas estimate", {
+        "Operator ID": operatorId,
+        "Gas per key": gasPerKey,
+        "Base gas": baseGas,
+        "Max gas per tx": maxGasPerTx,
+        "Batch size": batchSize,
+      });
+    }
+
+    let keysCount = batchSize < remainingKeys ? batchSize : remainingKeys;
+    const batch = () => keys.slice(keyIndex, keyIndex + Number(keysCount));
+
+    // The estimate is linear only roughly, so shrink the batch until it actually fits
+    while (
+      keysCount > 1n &&
+      (await estimateSigningKeysBatchGas(ctx, signer, sender, operatorId, keysCount, batch())) > maxGasPerTx
+    ) {
+      keysCount /= 2n;
+      batchSize = keysCount;
+    }
+
+    const operatorKeyIndex = startIndex + BigInt(keyIndex);
+
+    try {
+      const addKeysTx = await addSigningKeysBatch(ctx, signer, sender, operatorId, keysCount, batch());
+      await trace(
+        sender === "manager" ? "nodeOperatorRegistry.addSigningKeysOperatorBH" : "nodeOperatorRegistry.addSigningKeys",
+        addKeysTx,
+      );
+    } catch (error) {
+      throw new Error(
+        `Uploaded ${keyIndex} of ${keys.count} keys to NOR operator ${operatorId}, ` +
+          `resume with the startIndex ${startIndex}: ${(error as Error).message}`,
+      );
+    }
+
+    await verifyStoredSigningKeys(ctx, operatorId, operatorKeyIndex, keys, keyIndex, Number(keysCount));
+
+    batches.push(keysCount);
+    keyIndex += Number(keysCount);
+  }
+
+  const totalKeysAfter: bigint = await nor.getTotalSigningKeyCount(operatorId);
+  expect(totalKeysAfter).to.equal(startIndex + BigInt(keys.count), "Total keys count");
+
+  log.debug("Uploaded NOR signing keys", {
+    "Operator ID": operatorId,
+    "Sender": sender,
+    "Start index": startIndex,
+    "Resumed keys": storedKeys,
+    "Uploaded keys": totalKeysAfter - totalKeysBefore,
+    "Batches": batches.join(", "),
+  });
+
+  return { startIndex, uploadedKeys: totalKeysAfter - totalKeysBefore, batches };
+};
+
+/**
+ * Imports the keys from the `deposit_data-*.json` file of the staking-deposit-cli and adds them to the operator.
+ * The deposit data is checked against the Lido withdrawal credentials before any key gets to the NOR.
+ */
+export const norAddOperatorDepositDataKeys = async (
+  ctx: ProtocolContext,
+  params: {
+    operatorId: bigint;
+    path: string;
+    forkVersion: string;
+  },
+  options: Partial<NorSigningKeysUploadOptions> = {},
+) => {
+  const { lido } = ctx.contracts;
+  const { operatorId, path, forkVersion } = params;
+
+  const keys = ValidatorKeys.fromDepositDataJson(path, {
+    withdrawalCredentials: await lido.getWithdrawalCredentials(),
+    forkVersion,
+  });
+
+  const result = await norUploadSigningKeys(ctx, operatorId, keys, options);
+
+  return { keys, ...result };
 };
 
 /**
  * Sets the staking limit for the operator.
  */
-const norSetOperatorStakingLimit = async (
+export const norSetOperatorStakingLimit = async (
   ctx: ProtocolContext,
   params: {
     operatorId: bigint;
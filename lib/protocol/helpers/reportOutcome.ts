@@ -0,0 +1,132 @@
+import { ContractTransactionReceipt, LogDescription, ZeroAddress } from "ethers";
+
+import { ProtocolContext } from "../types";
+
+export type ReportFinalization = {
+  fromRequestId: bigint;
+  toRequestId: bigint;
+  amountOfETHLocked: bigint;
+  sharesToBurn: bigint;
+};
+
+export type ReportModuleFee = {
+  moduleId: bigint;
+  address: string;
+  shares: bigint;
+  amount: bigint; // stETH at the post-report share rate
+};
+
+export type ReportOutcome = {
+  reportTimestamp: bigint;
+  timeElapsed: bigint;
+  preTotalShares: bigint;
+  preTotalEther: bigint;
+  postTotalShares: bigint;
+  postTotalEther: bigint;
+  preShareRate: bigint; // 1e27 precision
+  postShareRate: bigint; // 1e27 precision
+  aprBp: bigint; // share rate growth annualized over the time elapsed since the previous report
+  preCLBalance: bigint; // includes the balance of the validators appeared in the report
+  postCLBalance: bigint;
+  clDelta: bigint;
+  withdrawalsWithdrawn: bigint;
+  elRewardsWithdrawn: bigint;
+  postBufferedEther: bigint;
+  sharesMintedAsFees: bigint;
+  treasuryFee: { shares: bigint; amount: bigint };
+  modulesFees: ReportModuleFee[];
+  finalization: ReportFinalization | null;
+  sharesBurnt: bigint;
+};
+
+const SHARE_RATE_PRECISION = 10n ** 27n;
+const SECONDS_PER_YEAR = 365n * 24n * 60n * 60n;
+const BASIS_POINTS = 10000n;
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+const getSingleEvent = (ctx: ProtocolContext, receipt: ContractTransactionReceipt, eventName: string) => {
+  const events = ctx.getEvents(receipt, eventName);
+  if (events.length !== 1) {
+    throw new Error(`Expected a single ${eventName} event in ${receipt.hash}, got ${events.length}`);
+  }
+  return events[0];
+};
+
+const getOptionalEvent = (ctx: ProtocolContext, receipt: ContractTransactionReceipt, eventName: string) =>
+  ctx.getEvents(receipt, eventName)[0] as LogDescription | undefined;
+
+/**
+ * Decode the rebase results from the receipt of the accounting report transaction, i.e. `reportTx` of `report()`.
+ * Fees are the shares minted to the treasury and to the staking modules, converted to stETH at the post-report rate.
+ */
+export const decodeReportOutcome = async (
+  ctx: ProtocolContext,
+  receipt: ContractTransactionReceipt,
+): Promise<ReportOutcome> => {
+  const { locator } = ctx.contracts;
+
+  const tokenRebased = getSingleEvent(ctx, receipt, "TokenRebased");
+  const ethDistributed = getSingleEvent(ctx, receipt, "ETHDistributed");
+  const withdrawalsFinalized = getOptionalEvent(ctx, receipt, "WithdrawalsFinalized");
+
+  const { reportTimestamp, timeElapsed, preTotalShares, preTotalEther, postTotalShares, postTotalEther } =
+    tokenRebased.args;
+
+  const preShareRate = (preTotalEther * SHARE_RATE_PRECISION) / preTotalShares;
+  const postShareRate = (postTotalEther * SHARE_RATE_PRECISION) / postTotalShares;
+  const aprBp =
+    timeElapsed > 0n
+      ? ((postShareRate - preShareRate) * BASIS_POINTS * SECONDS_PER_YEAR) / (preShareRate * timeElapsed)
+      : 0n;
+
+  const toEther = (shares: bigint) => (shares * postTotalEther) / postTotalShares;
+
+  const minted = ctx
+    .getEvents(receipt, "TransferShares")
+    .filter((event) => event.args.from === ZeroAddress)
+    .map((event) => ({ to: event.args.to as string, shares: event.args.sharesValue as bigint }));
+
+  const mintedTo = (address: string) =>
+    minted.filter(({ to }) => sameAddress(to, address)).reduce((sum, { shares }) => sum + shares, 0n);
+
+  const treasuryShares = mintedTo(await locator.treasury());
+
+  const modulesFees = ctx.modules
+    .map((module) => ({ moduleId: module.id, address: module.address, shares: mintedTo(module.address) }))
+    .filter(({ shares }) => shares > 0n)
+    .map((fee) => ({ ...fee, amount: toEther(fee.shares) }));
+
+  const { preCLBalance, postCLBalance, withdrawalsWithdrawn, executionLayerRewardsWithdrawn, postBufferedEther } =
+    ethDistributed.args;
+
+  return {
+    reportTimestamp,
+    timeElapsed,
+    preTotalShares,
+    preTotalEther,
+    postTotalShares,
+    postTotalEther,
+    preShareRate,
+    postShareRate,
+    aprBp,
+    preCLBalance,
+    postCLBalance,
+    clDelta: postCLBalance - preCLBalance,
+    withdrawalsWithdrawn,
+    elRewardsWithdrawn: executionLayerRewardsWithdrawn,
+    postBufferedEther,
+    sharesMintedAsFees: tokenRebased.args.sharesMintedAsFees,
+    treasuryFee: { shares: treasuryShares, amount: toEther(treasuryShares) },
+    modulesFees,
+    finalization: withdrawalsFinalized
+      ? {
+          fromRequestId: withdrawalsFinalized.args.from,
+          toRequestId: withdrawalsFinalized.args.to,
+          amountOfETHLocked: withdrawalsFinalized.args.amountOfETHLocked,
+          sharesToBurn: withdrawalsFinalized.args.sharesToBurn,
+        }
+      : null,
+    sharesBurnt: ctx.getEvents(receipt, "SharesBurnt").reduce((sum, event) => sum + event.args.sharesAmount, 0n),
+  };
+};
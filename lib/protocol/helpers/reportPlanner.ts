@@ -0,0 +1,278 @@
+import { formatEther } from "ethers";
+
+import { BigIntMath, ether, impersonate, log, ONE_GWEI } from "lib";
+
+import { ProtocolContext } from "../types";
+
+export type ReportLimitCheck =
+  "churnLimit" | "oneOffCLBalanceDecrease" | "annualBalanceIncrease" | "simulatedShareRate" | "requestTimestampMargin";
+
+export type ReportLimitViolation = {
+  check: ReportLimitCheck;
+  value: bigint;
+  limit: bigint;
+};
+
+export type ReportPlanParams = {
+  refSlot: bigint;
+  clDiff: bigint;
+  clAppearedValidators: bigint;
+  withdrawalVaultBalance: bigint;
+  elRewardsVaultBalance: bigint;
+  sharesRequestedToBurn: bigint;
+  simulatedShareRate: bigint | null;
+  withdrawalFinalizationBatches: bigint[];
+};
+
+export type ReportPlan = {
+  reportTimestamp: bigint;
+  timeElapsed: bigint;
+  violations: ReportLimitViolation[];
+  maxClAppearedValidators: bigint;
+  minClDiff: bigint; // with min(clAppearedValidators, maxClAppearedValidators) validators appeared
+  maxClDiff: bigint; // with min(clAppearedValidators, maxClAppearedValidators) validators appeared
+  lastFinalizedRequestId: bigint;
+  lastFinalizableRequestId: bigint; // equals lastFinalizedRequestId when no request passes the margin
+  maxPositiveRebase: bigint; // the rewards above it are postponed to the next reports, not reverted
+};
+
+const DEPOSIT_SIZE = ether("32");
+const BASIS_POINTS = 10000n;
+const SECONDS_PER_DAY = 24n * 60n * 60n;
+const SECONDS_PER_YEAR = 365n * SECONDS_PER_DAY;
+const SHARE_RATE_PRECISION = 10n ** 27n;
+const LIMITER_PRECISION_BASE = 10n ** 9n;
+const DEFAULT_TIME_ELAPSED = 60n * 60n; // OracleReportSanityChecker.DEFAULT_TIME_ELAPSED
+const DEFAULT_CL_BALANCE = ONE_GWEI; // OracleReportSanityChecker.DEFAULT_CL_BALANCE
+const WITHDRAWAL_STATUS_BATCH_SIZE = 500n;
+
+/**
+ * Find the last request that is old enough to be finalized by the report with the given timestamp.
+ */
+const getLastFinalizableRequestId = async (
+  ctx: ProtocolContext,
+  lastFinalizedRequestId: bigint,
+  maxTimestamp: bigint,
+) => {
+  const { withdrawalQueue } = ctx.contracts;
+
+  let lastFinalizableRequestId = lastFinalizedRequestId;
+  const lastRequestId = await withdrawalQueue.getLastRequestId();
+
+  // The requests are sorted by timestamp, so the scan stops at the first request that is too fresh
+  for (let from = lastFinalizableRequestId + 1n; from <= lastRequestId; from += WITHDRAWAL_STATUS_BATCH_SIZE) {
+    const to = BigIntMath.min(from + WITHDRAWAL_STATUS_BATCH_SIZE - 1n, lastRequestId);
+    const ids = Array.from({ length: Number(to - from + 1n) }, (_, i) => from + BigInt(i));
+
+    for (const [i, status] of (await withdrawalQueue.getWithdrawalStatus(ids)).entries()) {
+      if (status.timestamp > maxTimestamp) return lastFinalizableRequestId;
+      lastFinalizableRequestId = ids[i];
+    }
+  }
+
+  return lastFinalizableRequestId;
+};
+
+/**
+ * Share rate of the report without the withdrawals finalization, the simulated share rate is checked against it.
+ */
+const getNoWithdrawalsShareRate = async (
+  ctx: ProtocolContext,
+  plan: Pick<ReportPlan, "reportTimestamp" | "timeElapsed">,
+  params: ReportPlanParams,
+) => {
+  const { lido, accountingOracle } = ctx.contracts;
+
+  const { beaconValidators, beaconBalance } = await lido.getBeaconStat();
+  const accountingOracleAccount = await impersonate(accountingOracle.address, ether("100"));
+
+  const [postTotalPooledEther, postTotalShares] = await lido
+    .connect(accountingOracleAccount)
+    .handleOracleReport.staticCall(
+      plan.reportTimestamp,
+      plan.timeElapsed,
+      beaconValidators + params.clAppearedValidators,
+      beaconBalance + params.clDiff,
+      params.withdrawalVaultBalance,
+      params.elRewardsVaultBalance,
+      params.sharesRequestedToBurn,
+      [],
+      0n,
+    );
+
+  return (postTotalPooledEther * SHARE_RATE_PRECISION) / postTotalShares;
+};
+
+/**
+ * Predict the OracleReportSanityChecker checks the report would trip and the max safe report values.
+ * The formulas repeat the checker ones, including the rounding, so the bounds are exact.
+ */
+export const planReport = async (ctx: ProtocolContext, params: ReportPlanParams): Promise<ReportPlan> => {
+  const { lido, accountingOracle, hashConsensus, oracleReportSanityChecker, withdrawalQueue } = ctx.contracts;
+  const { refSlot, clDiff, clAppearedValidators, withdrawalVaultBalance, withdrawalFinalizationBatches } = params;
+
+  const limits = await oracleReportSanityChecker.getOracleReportLimits();
+  const maxPositiveTokenRebase = await oracleReportSanityChecker.getMaxPositiveTokenRebase();
+
+  const { genesisTime, secondsPerSlot } = await hashConsensus.getChainConfig();
+  const reportTimestamp = genesisTime + refSlot * secondsPerSlot;
+  const timeElapsed = (refSlot - (await accountingOracle.getLastProcessingRefSlot())) * secondsPerSlot;
+  const checkedTimeElapsed = timeElapsed > 0n ? timeElapsed : DEFAULT_TIME_ELAPSED;
+
+  const { beaconBalance } = await lido.getBeaconStat();
+  const violations: ReportLimitViolation[] = [];
+
+  // Appeared validators churn
+  const maxClAppearedValidators = (limits.churnValidatorsPerDayLimit * checkedTimeElapsed) / SECONDS_PER_DAY;
+  if (clAppearedValidators > maxClAppearedValidators) {
+    violations.push({ check: "churnLimit", value: clAppearedValidators, limit: maxClAppearedValidators });
+  }
+
+  // The checker sees the appeared validators deposits as a part of the pre-report balance
+  const appearedBalance = BigIntMath.min(clAppearedValidators, maxClAppearedValidators) * DEPOSIT_SIZE;
+  const preCLBalance = beaconBalance + clAppearedValidators * DEPOSIT_SIZE;
+  const postCLBalance = beaconBalance + clDiff;
+
+  // One-off CL balance decrease, the withdrawal vault balance counts as a part of CL one
+  const unifiedPostCLBalance = postCLBalance + withdrawalVaultBalance;
+  if (preCLBalance > unifiedPostCLBalance) {
+    const decreaseBp = (BASIS_POINTS * (preCLBalance - unifiedPostCLBalance)) / preCLBalance;
+    if (decreaseBp > limits.oneOffCLBalanceDecreaseBPLimit) {
+      violations.push({
+        check: "oneOffCLBalanceDecrease",
+        value: decreaseBp,
+        limit: limits.oneOffCLBalanceDecreaseBPLimit,
+      });
+    }
+  }
+
+  // Annual CL balance increase
+  const annualPreCLBalance = preCLBalance > 0n ? preCLBalance : DEFAULT_CL_BALANCE;
+  if (postCLBalance > annualPreCLBalance) {
+    const increaseBp =
+      (SECONDS_PER_YEAR * BASIS_POINTS * (postCLBalance - annualPreCLBalance)) /
+      annualPreCLBalance /
+      checkedTimeElapsed;
+    if (increaseBp > limits.annualBalanceIncreaseBPLimit) {
+      violations.push({
+        check: "annualBalanceIncrease",
+        value: increaseBp,
+        limit: limits.annualBalanceIncreaseBPLimit,
+      });
+    }
+  }
+
+  // The bounds for the report with the appeared validators fitting into the churn limit
+  const safePreCLBalance = beaconBalance + appearedBalance;
+  const safeAnnualPreCLBalance = safePreCLBalance > 0n ? safePreCLBalance : DEFAULT_CL_BALANCE;
+  const maxDecrease = ((limits.oneOffCLBalanceDecreaseBPLimit + 1n) * safePreCLBalance - 1n) / BASIS_POINTS;
+  const maxIncrease =
+    ((limits.annualBalanceIncreaseBPLimit + 1n) * safeAnnualPreCLBalance * checkedTimeElapsed - 1n) /
+    (SECONDS_PER_YEAR * BASIS_POINTS);
+  const minClDiff = BigIntMath.max(appearedBalance - maxDecrease - withdrawalVaultBalance, -beaconBalance);
+  const maxClDiff = safeAnnualPreCLBalance - beaconBalance + maxIncrease;
+
+  // Withdrawal requests finalization
+  const lastFinalizedRequestId = await withdrawalQueue.getLastFinalizedRequestId();
+  const lastFinalizableRequestId = await getLastFinalizableRequestId(
+    ctx,
+    lastFinalizedRequestId,
+    reportTimestamp - limits.requestTimestampMargin,
+  );
+  const lastBatch = withdrawalFinalizationBatches[withdrawalFinalizationBatches.length - 1] ?? 0n;
+  if (lastBatch > lastFinalizableRequestId) {
+    violations.push({ check: "requestTimestampMargin", value: lastBatch, limit: lastFinalizableRequestId });
+  }
+
+  // Simulated share rate can be checked only for the report that passes the other checks
+  if (params.simulatedShareRate !== null && violations.length === 0) {
+    const actualShareRate = await getNoWithdrawalsShareRate(ctx, { reportTimestamp, timeElapsed }, params);
+    const deviationBp = (BASIS_POINTS * BigIntMath.abs(actualShareRate - params.simulatedShareRate)) / actualShareRate;
+    if (deviationBp > limits.simulatedShareRateDeviationBPLimit) {
+      violations.push({
+        check: "simulatedShareRate",
+        value: deviationBp,
+        limit: limits.simulatedShareRateDeviationBPLimit,
+      });
+    }
+  }
+
+  const maxPositiveRebase = (maxPositiveTokenRebase * (await lido.getTotalPooledEther())) / LIMITER_PRECISION_BASE;
+
+  log.debug("Report plan", {
+    "Ref slot": refSlot,
+    "Time elapsed": timeElapsed,
+    "Max appeared validators": maxClAppearedValidators,
+    "CL diff range": `${formatEther(minClDiff)} .. ${formatEther(maxClDiff)}`,
+    "Last finalizable request": lastFinalizableRequestId,
+    "Max positive rebase": formatEther(maxPositiveRebase),
+    "Violations": violations.map(({ check }) => check).join(", ") || "-",
+  });
+
+  return {
+    reportTimestamp,
+    timeElapsed,
+    violations,
+    maxClAppearedValidators,
+    minClDiff,
+    maxClDiff,
+    lastFinalizedRequestId,
+    lastFinalizableRequestId,
+    maxPositiveRebase,
+  };
+};
+
+/**
+ * Cut the finalization batches at the last request that passes the request timestamp margin.
+ * No batches are left if none of the requests after the last finalized one passes it.
+ */
+export const clampFinalizationBatches = (
+  batches: bigint[],
+  lastFinalizableRequestId: bigint,
+  lastFinalizedRequestId: bigint,
+) => {
+  if (lastFinalizableRequestId <= lastFinalizedRequestId) {
+    return [];
+  }
+
+  const clamped = batches.filter((requestId) => requestId < lastFinalizableRequestId);
+
+  // The cut batch ends at the last finalizable request, its requests share the discount status
+  if (clamped.length < batches.length && lastFinalizableRequestId > (clamped[clamped.length - 1] ?? 0n)) {
+    clamped.push(lastFinalizableRequestId);
+  }
+
+  return clamped;
+};
+
+/**
+ * Fit the report values into the plan bounds. The validators that don't fit into the churn limit stay pending
+ * along with their deposits, and the simulated share rate is dropped to be recalculated for the clamped report.
+ */
+export const clampReportToLimits = (plan: ReportPlan, params: ReportPlanParams) => {
+  const clAppearedValidators = BigIntMath.min(params.clAppearedValidators, plan.maxClAppearedValidators);
+  const pendingDeposits = (params.clAppearedValidators - clAppearedValidators) * DEPOSIT_SIZE;
+  const clDiff = BigIntMath.min(BigIntMath.max(params.clDiff - pendingDeposits, plan.minClDiff), plan.maxClDiff);
+
+  const clamped = {
+    clDiff,
+    clAppearedValidators,
+    simulatedShareRate: plan.violations.length > 0 ? null : params.simulatedShareRate,
+    withdrawalFinalizationBatches: clampFinalizationBatches(
+      params.withdrawalFinalizationBatches,
+      plan.lastFinalizableRequestId,
+      plan.lastFinalizedRequestId,
+    ),
+  };
+
+  if (plan.violations.length > 0) {
+    log.warning(`Report clamped to the sanity checker limits: ${plan.violations.map(({ check }) => check).join(", ")}`);
+    log.debug("Clamped report", {
+      "CL diff": `${formatEther(params.clDiff)} -> ${formatEther(clamped.clDiff)}`,
+      "CL appeared validators": `${params.clAppearedValidators} -> ${clamped.clAppearedValidators}`,
+      "Finalization batches": clamped.withdrawalFinalizationBatches.join(", ") || "-",
+    });
+  }
+
+  return clamped;
+};
@@ -1,10 +1,12 @@
 import { expect } from "chai";
 import { randomBytes } from "ethers";
 
+import { NodeOperatorsRegistry } from "typechain-types";
+
 import { impersonate, log, streccak, trace } from "lib";
 
 import { ether } from "../../units";
-import { ProtocolContext } from "../types";
+import { LoadedContract, ProtocolContext } from "../types";
 
 import { getOperatorManagerAddress, getOperatorName, getOperatorRewardAddress } from "./nor.helper";
 
@@ -16,6 +18,14 @@ const SIGNATURE_LENGTH = 96n;
 
 const MANAGE_SIGNING_KEYS_ROLE = streccak("MANAGE_SIGNING_KEYS");
 
+const getSdvt = (ctx: ProtocolContext): LoadedContract<NodeOperatorsRegistry> => {
+  const { sdvt } = ctx.contracts;
+  if (!sdvt) {
+    throw new Error("Simple DVT module is not registered in the staking router");
+  }
+  return sdvt;
+};
+
 export const sdvtEnsureOperators = async (
   ctx: ProtocolContext,
   minOperatorsCount = MIN_OPS_COUNT,
@@ -23,7 +33,7 @@ export const sdvtEnsureOperators = async (
 ) => {
   await sdvtEnsureOperatorsHaveMinKeys(ctx, minOperatorsCount, minOperatorKeysCount);
 
-  const { sdvt } = ctx.contracts;
+  const sdvt = getSdvt(ctx);
 
   for (let operatorId = 0n; operatorId < minOperatorsCount; operatorId++) {
     const nodeOperatorBefore = await sdvt.getNodeOperator(operatorId, false);
@@ -51,7 +61,7 @@ const sdvtEnsureOperatorsHaveMinKeys = async (
 ) => {
   await sdvtEnsureMinOperators(ctx, minOperatorsCount);
 
-  const { sdvt } = ctx.contracts;
+  const sdvt = getSdvt(ctx);
 
   for (let operatorId = 0n; operatorId < minOperatorsCount; operatorId++) {
     const unusedKeysCount = await sdvt.getUnusedSigningKeyCount(operatorId);
@@ -80,7 +90,7 @@ const sdvtEnsureOperatorsHaveMinKeys = async (
  * Fills the Simple DVT with some operators in case there are not enough of them.
  */
 const sdvtEnsureMinOperators = async (ctx: ProtocolContext, minOperatorsCount = MIN_OPS_COUNT) => {
-  const { sdvt } = ctx.contracts;
+  const sdvt = getSdvt(ctx);
 
   const before = await sdvt.getNodeOperatorsCount();
   let count = 0n;
@@ -124,7 +134,8 @@ const sdvtAddNodeOperator = async (
     managerAddress: string;
   },
 ) => {
-  const { sdvt, acl } = ctx.contracts;
+  const { acl } = ctx.contracts;
+  const sdvt = getSdvt(ctx);
   const { operatorId, name, rewardAddress, managerAddress } = params;
 
   const easyTrackExecutor = await ctx.getSigner("easyTrack");
@@ -159,7 +170,7 @@ const sdvtAddNodeOperatorKeys = async (
     keysToAdd: bigint;
   },
 ) => {
-  const { sdvt } = ctx.contracts;
+  const sdvt = getSdvt(ctx);
   const { operatorId, keysToAdd } = params;
 
   const totalKeysBefore = await sdvt.getTotalSigningKeyCount(operatorId);
@@ -204,7 +215,7 @@ const sdvtSetOperatorStakingLimit = async (
     limit: bigint;
   },
 ) => {
-  const { sdvt } = ctx.contracts;
+  const sdvt = getSdvt(ctx);
   const { operatorId, limit } = params;
 
   const easyTrackExecutor = await ctx.getSigner("easyTrack");
@@ -0,0 +1,247 @@
+import { formatEther, ZeroAddress } from "ethers";
+import { ethers } from "hardhat";
+
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+
+import { BigIntMath, ether, log, trace, updateBalance, WITHDRAWAL_MAX_STETH_WITHDRAWAL_AMOUNT } from "lib";
+
+import { ProtocolContext } from "../types";
+
+import { NodeOperatorValidatorsDelta, report } from "./accounting";
+import { getConsensusTimeConfig } from "./clock";
+import { decodeReportOutcome } from "./reportOutcome";
+
+export type SimulationOptions = {
+  days: bigint;
+  aprBp: bigint; // CL rewards APR in basis points
+  elRewardsPerDay: bigint;
+  withdrawalsPerDay: bigint; // stETH requested to withdraw
+  exitsPerDay: bigint; // validators exited to cover the withdrawals
+};
+
+export type SimulationTimelineEntry = {
+  frame: number;
+  refSlot: bigint;
+  timestamp: bigint;
+  totalPooledEther: bigint;
+  totalShares: bigint;
+  shareRate: bigint; // 1e27 precision
+  aprBp: bigint; // share rate growth since the previous report, annualized
+  clRewards: bigint;
+  elRewards: bigint; // collected from the vault, limited by the max positive token rebase
+  treasuryFee: bigint; // stETH minted to the treasury
+  modulesFee: bigint; // stETH minted to the staking modules
+  exitedValidators: bigint;
+  withdrawalsRequested: bigint;
+  lastRequestId: bigint;
+  lastFinalizedRequestId: bigint;
+  unfinalizedStETH: bigint;
+};
+
+const SECONDS_PER_DAY = 24n * 60n * 60n;
+const SECONDS_PER_YEAR = 365n * SECONDS_PER_DAY;
+const DEPOSIT_SIZE = ether("32");
+const BASIS_POINTS = 10000n;
+
+/**
+ * Pick the node operators to exit validators from, taking the ones with the most active validators first.
+ */
+const getExitedValidatorsDelta = async (ctx: ProtocolContext, count: bigint) => {
+  const { stakingRouter } = ctx.contracts;
+
+  const operators: { moduleId: number; nodeOpId: number; active: bigint }[] = [];
+  for (const module of ctx.modules) {
+    for (const digest of await stakingRouter.getAllNodeOperatorDigests(module.id)) {
+      const { totalDepositedValidators, totalExitedValidators } = digest.summary;
+      if (totalDepositedValidators > totalExitedValidators) {
+        operators.push({
+          moduleId: Number(module.id),
+          nodeOpId: Number(digest.id),
+          active: totalDepositedValidators - totalExitedValidators,
+        });
+      }
+    }
+  }
+
+  operators.sort((a, b) => Number(b.active - a.active));
+
+  const delta: NodeOperatorValidatorsDelta[] = [];
+  let left = count;
+  for (const { moduleId, nodeOpId, active } of operators) {
+    if (left === 0n) break;
+
+    const exited = BigIntMath.min(active, left);
+    delta.push({ moduleId, nodeOpId, exited: Number(exited) });
+    left -= exited;
+  }
+
+  if (left > 0n) {
+    log.warning(`Not enough active validators to exit, ${left} of ${count} exits skipped`);
+  }
+
+  return { delta, exited: count - left };
+};
+
+/**
+ * Stake the ether and put it into the withdrawal queue in requests of the maximum allowed size.
+ */
+const requestWithdrawals = async (ctx: ProtocolContext, actor: HardhatEthersSigner, amount: bigint) => {
+  const { lido, withdrawalQueue } = ctx.contracts;
+
+  await updateBalance(actor.address, amount + ether("1"));
+
+  const submitTx = await lido.connect(actor).submit(ZeroAddress, { value: amount });
+  await trace("lido.submit", submitTx);
+
+  const amounts: bigint[] = [];
+  for (let left = amount; left > 0n; left -= amounts[amounts.length - 1]) {
+    amounts.push(BigIntMath.min(left, WITHDRAWAL_MAX_STETH_WITHDRAWAL_AMOUNT));
+  }
+
+  const approveTx = await lido.connect(actor).approve(withdrawalQueue.address, amount);
+  await trace("lido.approve", approveTx);
+
+  const requestTx = await withdrawalQueue.connect(actor).requestWithdrawals(amounts, actor.address);
+  await trace("withdrawalQueue.requestWithdrawals", requestTx);
+};
+
+/**
+ * Simulate the protocol life for the given number of days with one oracle report per frame.
+ * Each frame gets the CL rewards by APR, the EL rewards, the withdrawal requests and the validator exits
+ * prorated by the frame length, the exited validators balance goes to the withdrawal vault.
+ * Returns the timeline with one entry per report.
+ */
+export const simulateDays = async (
+  ctx: ProtocolContext,
+  {
+    days,
+    aprBp,
+    elRewardsPerDay = 0n,
+    withdrawalsPerDay = 0n,
+    exitsPerDay = 0n,
+  }: Partial<SimulationOptions> & Pick<SimulationOptions, "days" | "aprBp">,
+) => {
+  const { lido, withdrawalQueue, elRewardsVault, withdrawalVault } = ctx.contracts;
+
+  const { slotsPerFrame, secondsPerSlot } = await getConsensusTimeConfig(ctx.contracts.hashConsensus);
+  const frameSeconds = slotsPerFrame * secondsPerSlot;
+  const framesCount = Number((days * SECONDS_PER_DAY + frameSeconds - 1n) / frameSeconds);
+
+  const [actor] = (await ethers.getSigners()).slice(-1);
+
+  log.debug("Simulation", {
+    "Days": days,
+    "Frames": framesCount,
+    "Frame length": frameSeconds,
+    "APR, bp": aprBp,
+    "EL rewards per day": formatEther(elRewardsPerDay),
+    "Withdrawals per day": formatEther(withdrawalsPerDay),
+    "Exits per day": exitsPerDay,
+  });
+
+  const timeline: SimulationTimelineEntry[] = [];
+  let totalExited = 0n;
+
+  for (let frame = 0; frame < framesCount; frame++) {
+    const elapsed = BigInt(frame + 1) * frameSeconds;
+
+    // Prorate the exits by the elapsed time, so that the fractional daily counts add up over the frames
+    const exitsToMake = (exitsPerDay * elapsed) / SECONDS_PER_DAY - totalExited;
+    const { delta, exited } = await getExitedValidatorsDelta(ctx, exitsToMake);
+    totalExited += exitsToMake;
+
+    const withdrawalsRequested = (withdrawalsPerDay * frameSeconds) / SECONDS_PER_DAY;
+    if (withdrawalsRequested > 0n) {
+      await requestWithdrawals(ctx, actor, withdrawalsRequested);
+    }
+
+    const elRewards = (elRewardsPerDay * frameSeconds) / SECONDS_PER_DAY;
+    await updateBalance(elRewardsVault.address, (await ethers.provider.getBalance(elRewardsVault.address)) + elRewards);
+
+    const exitedEther = exited * DEPOSIT_SIZE;
+    await updateBalance(
+      withdrawalVault.address,
+      (await ethers.provider.getBalance(withdrawalVault.address)) + exitedEther,
+    );
+
+    // All the deposited validators appear on CL before the rewards are accrued
+    const { depositedValidators, beaconValidators, beaconBalance } = await lido.getBeaconStat();
+    const clAppearedValidators = depositedValidators - beaconValidators;
+    const clBalance = beaconBalance + clAppearedValidators * DEPOSIT_SIZE;
+    const clRewards = (clBalance * aprBp * frameSeconds) / (BASIS_POINTS * SECONDS_PER_YEAR);
+
+    const { reportTx } = await report(ctx, {
+      clDiff: clAppearedValidators * DEPOSIT_SIZE + clRewards - exitedEther,
+      clAppearedValidators,
+      validatorsDelta: delta,
+    });
+
+    const outcome = await decodeReportOutcome(ctx, (await reportTx!.wait())!);
+
+    const entry: SimulationTimelineEntry = {
+      frame,
+      refSlot: await ctx.contracts.accountingOracle.getLastProcessingRefSlot(),
+      timestamp: outcome.reportTimestamp,
+      totalPooledEther: outcome.postTotalEther,
+      totalShares: outcome.postTotalShares,
+      shareRate: outcome.postShareRate,
+      aprBp: outcome.aprBp,
+      clRewards,
+      elRewards: outcome.elRewardsWithdrawn,
+      treasuryFee: outcome.treasuryFee.amount,
+      modulesFee: outcome.modulesFees.reduce((sum, { amount }) => sum + amount, 0n),
+      exitedValidators: exited,
+      withdrawalsRequested,
+      lastRequestId: await withdrawalQueue.getLastRequestId(),
+      lastFinalizedRequestId: await withdrawalQueue.getLastFinalizedRequestId(),
+      unfinalizedStETH: await withdrawalQueue.unfinalizedStETH(),
+    };
+
+    log.debug(`Simulated frame ${frame}`, {
+      "Share rate": entry.shareRate,
+      "APR, bp": entry.aprBp,
+      "Treasury fee": formatEther(entry.treasuryFee),
+      "Modules fee": formatEther(entry.modulesFee),
+      "Finalized requests": `${entry.lastFinalizedRequestId} of ${entry.lastRequestId}`,
+    });
+
+    timeline.push(entry);
+  }
+
+  log.success(`Simulated ${days} day(s) with ${framesCount} report(s)`);
+
+  return timeline;
+};
+
+const TIMELINE_COLUMNS: (keyof SimulationTimelineEntry)[] = [
+  "frame",
+  "refSlot",
+  "timestamp",
+  "totalPooledEther",
+  "totalShares",
+  "shareRate",
+  "aprBp",
+  "clRewards",
+  "elRewards",
+  "treasuryFee",
+  "modulesFee",
+  "exitedValidators",
+  "withdrawalsRequested",
+  "lastRequestId",
+  "lastFinalizedRequestId",
+  "unfinalizedStETH",
+];
+
+/**
+ * Format the timeline as CSV with a header row, amounts are in wei.
+ */
+export const simulationTimelineToCsv = (timeline: SimulationTimelineEntry[]) =>
+  [TIMELINE_COLUMNS.join(","), ...timeline.map((entry) => TIMELINE_COLUMNS.map((key) => entry[key]).join(","))].join(
+    "\n",
+  );
+
+/**
+ * Format the timeline as JSON, bigints are written as decimal strings.
+ */
+export const simulationTimelineToJson = (timeline: SimulationTimelineEntry[]) =>
+  JSON.stringify(timeline, (_, value) => (typeof value === "bigint" ? value.toString() : value), 2);
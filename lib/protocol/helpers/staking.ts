@@ -2,6 +2,8 @@ import { ether, log, trace } from "lib";
 
 import { ProtocolContext } from "../types";
 
+import { maybeEnsureProtocolInvariants } from "./invariants";
+
 /**
  * Unpauses the staking contract.
  */
@@ -14,6 +16,8 @@ export const unpauseStaking = async (ctx: ProtocolContext) => {
     const tx = await lido.connect(votingSigner).resume();
     await trace("lido.resume", tx);
 
+    await maybeEnsureProtocolInvariants(ctx, "unpauseStaking");
+
     log.success("Staking contract unpaused");
   }
 };
@@ -32,6 +36,8 @@ export const ensureStakeLimit = async (ctx: ProtocolContext) => {
     const tx = await lido.connect(votingSigner).setStakingLimit(maxStakeLimit, stakeLimitIncreasePerBlock);
     await trace("lido.setStakingLimit", tx);
 
+    await maybeEnsureProtocolInvariants(ctx, "ensureStakeLimit");
+
     log.success("Staking limit set");
   }
 };
@@ -0,0 +1,169 @@
+import { Result } from "ethers";
+
+import { HashConsensus } from "typechain-types";
+
+import { LoadedContract, ProtocolContext } from "../types";
+
+export type ProtocolStateValue = string | boolean | null | ProtocolStateValue[] | { [key: string]: ProtocolStateValue };
+
+export type ProtocolState = { [section: string]: ProtocolStateValue };
+
+export type ProtocolStateChange = {
+  before: ProtocolStateValue | undefined;
+  after: ProtocolStateValue | undefined;
+  delta: bigint | null; // set when both values are integers
+};
+
+export type ProtocolStateDiff = Record<string, ProtocolStateChange>;
+
+const INTEGER_RE = /^-?\d+$/;
+
+const isInteger = (value: ProtocolStateValue | undefined): value is string =>
+  typeof value === "string" && INTEGER_RE.test(value);
+
+/**
+ * Convert contract call results to plain JSON values: bigints and numbers become decimal strings,
+ * named ethers results become objects and object keys are sorted to keep the document stable.
+ */
+const toStateValue = (value: unknown): ProtocolStateValue => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "bigint" || typeof value === "number") return value.toString();
+  if (typeof value === "string" || typeof value === "boolean") return value;
+
+  if (value instanceof Result) {
+    try {
+      return toStateValue(value.toObject());
+    } catch {
+      // some of the values are unnamed
+      return toStateValue(value.toArray());
+    }
+  }
+
+  if (Array.isArray(value)) return value.map(toStateValue);
+
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, item]) => [key, toStateValue(item)]),
+  );
+};
+
+const getLidoState = async (ctx: ProtocolContext) => {
+  const { lido } = ctx.contracts;
+
+  return {
+    totalPooledEther: await lido.getTotalPooledEther(),
+    totalShares: await lido.getTotalShares(),
+    bufferedEther: await lido.getBufferedEther(),
+    depositableEther: await lido.getDepositableEther(),
+    totalELRewardsCollected: await lido.getTotalELRewardsCollected(),
+    beaconStat: await lido.getBeaconStat(),
+    stakeLimit: await lido.getStakeLimitFullInfo(),
+  };
+};
+
+const getWithdrawalQueueState = async (ctx: ProtocolContext) => {
+  const { withdrawalQueue } = ctx.contracts;
+
+  return {
+    lastRequestId: await withdrawalQueue.getLastRequestId(),
+    lastFinalizedRequestId: await withdrawalQueue.getLastFinalizedRequestId(),
+    lastCheckpointIndex: await withdrawalQueue.getLastCheckpointIndex(),
+    lockedEtherAmount: await withdrawalQueue.getLockedEtherAmount(),
+    unfinalizedRequestNumber: await withdrawalQueue.unfinalizedRequestNumber(),
+    unfinalizedStETH: await withdrawalQueue.unfinalizedStETH(),
+    isBunkerModeActive: await withdrawalQueue.isBunkerModeActive(),
+    isPaused: await withdrawalQueue.isPaused(),
+  };
+};
+
+const getHashConsensusState = async (hashConsensus: LoadedContract<HashConsensus>) => {
+  const { addresses, lastReportedRefSlots } = await hashConsensus.getMembers();
+
+  return {
+    address: hashConsensus.address,
+    chainConfig: await hashConsensus.getChainConfig(),
+    frameConfig: await hashConsensus.getFrameConfig(),
+    initialRefSlot: await hashConsensus.getInitialRefSlot(),
+    quorum: await hashConsensus.getQuorum(),
+    members: Object.fromEntries(addresses.map((address, i) => [address, lastReportedRefSlots[i]])),
+  };
+};
+
+/**
+ * Staking modules and their node operators keyed by id, so that diffs point at the exact module or operator.
+ */
+const getStakingModulesState = async (ctx: ProtocolContext) => {
+  const { stakingRouter } = ctx.contracts;
+
+  const modules = await stakingRouter.getAllStakingModuleDigests();
+
+  const state: Record<string, unknown> = {};
+  for (const module of modules) {
+    const operators = await stakingRouter.getAllNodeOperatorDigests(module.state.id);
+    state[module.state.id.toString()] = {
+      ...module.toObject(),
+      nodeOperators: Object.fromEntries(operators.map((operator) => [operator.id.toString(), operator])),
+    };
+  }
+
+  return state;
+};
+
+/**
+ * Take a snapshot of the protocol state on the current block.
+ * The result is a plain JSON document with sorted keys, so `JSON.stringify` output is stable and diffable.
+ */
+export const snapshotProtocolState = async (ctx: ProtocolContext): Promise<ProtocolState> => {
+  const { oracleReportSanityChecker, hashConsensus, hashConsensusForVEBO } = ctx.contracts;
+
+  return toStateValue({
+    lido: await getLidoState(ctx),
+    withdrawalQueue: await getWithdrawalQueueState(ctx),
+    sanityChecker: await oracleReportSanityChecker.getOracleReportLimits(),
+    hashConsensus: await getHashConsensusState(hashConsensus),
+    hashConsensusForVEBO: await getHashConsensusState(hashConsensusForVEBO),
+    stakingModules: await getStakingModulesState(ctx),
+  }) as ProtocolState;
+};
+
+/**
+ * Flatten the state into dot-separated paths, e.g. `stakingModules.1.nodeOperators.0.isActive`.
+ */
+const flattenProtocolState = (
+  value: ProtocolStateValue,
+  path: string,
+  result: Record<string, ProtocolStateValue> = {},
+) => {
+  if (value !== null && typeof value === "object") {
+    for (const [key, item] of Object.entries(value)) {
+      flattenProtocolState(item, path ? `${path}.${key}` : key, result);
+    }
+  } else {
+    result[path] = value;
+  }
+  return result;
+};
+
+/**
+ * Get the changed values between two snapshots keyed by their path.
+ * Integer values get the delta, e.g. `diff["lido.totalShares"].delta`.
+ */
+export const diffProtocolState = (a: ProtocolState, b: ProtocolState): ProtocolStateDiff => {
+  const before = flattenProtocolState(a, "");
+  const after = flattenProtocolState(b, "");
+
+  const paths = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+
+  const diff: ProtocolStateDiff = {};
+  for (const path of paths) {
+    if (before[path] === after[path]) continue;
+
+    const [valueBefore, valueAfter] = [before[path], after[path]];
+    const delta = isInteger(valueBefore) && isInteger(valueAfter) ? BigInt(valueAfter) - BigInt(valueBefore) : null;
+
+    diff[path] = { before: valueBefore, after: valueAfter, delta };
+  }
+
+  return diff;
+};
@@ -1,13 +1,30 @@
 import { expect } from "chai";
-import { ZeroAddress } from "ethers";
+import { ContractTransactionReceipt, ContractTransactionResponse, formatEther, Result, ZeroAddress } from "ethers";
+import { ethers } from "hardhat";
 
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 
-import { ether, log, trace, updateBalance } from "lib";
+import { Lido, WstETH } from "typechain-types";
 
-import { ProtocolContext } from "../types";
+import {
+  advanceChainTime,
+  BigIntMath,
+  ether,
+  getCurrentBlockTimestamp,
+  log,
+  MAX_UINT256,
+  signPermit,
+  stethDomain,
+  trace,
+  updateBalance,
+  wstethDomain,
+} from "lib";
+
+import { LoadedContract, ProtocolContext } from "../types";
 
 import { report } from "./accounting";
+import { maybeEnsureProtocolInvariants } from "./invariants";
+import { clampFinalizationBatches } from "./reportPlanner";
 
 /**
  * Unpauses the withdrawal queue contract.
@@ -74,5 +91,261 @@ export const finalizeWithdrawalQueue = async (
 
   await trace("lido.submit", submitTx);
 
+  await maybeEnsureProtocolInvariants(ctx, "finalizeWithdrawalQueue");
+
   log.success("Finalized withdrawal queue");
 };
+
+/**
+ * Sign the EIP-2612 permit for the withdrawal queue to spend the owner tokens.
+ */
+const signWithdrawalPermit = async (
+  ctx: ProtocolContext,
+  owner: HardhatEthersSigner,
+  token: LoadedContract<Lido> | LoadedContract<WstETH>,
+  value: bigint,
+) => {
+  const isStETH = token.address === ctx.contracts.lido.address;
+  const domain = isStETH ? await stethDomain(token) : await wstethDomain(token);
+
+  const permit = {
+    owner: owner.address,
+    spender: ctx.contracts.withdrawalQueue.address,
+    value,
+    nonce: await token.nonces(owner.address),
+    deadline: MAX_UINT256,
+  };
+
+  const { v, r, s } = await signPermit(domain, permit, owner);
+  return { value, deadline: permit.deadline, v, r, s };
+};
+
+/**
+ * Send the withdrawal requests and check that the owner got the NFTs for the locked tokens.
+ * Returns the ids of the created requests.
+ */
+const sendWithdrawalRequests = async (
+  ctx: ProtocolContext,
+  owner: HardhatEthersSigner,
+  amounts: bigint[],
+  token: "stETH" | "wstETH",
+  send: () => Promise<ContractTransactionResponse>,
+) => {
+  const { lido, wstETH, withdrawalQueue } = ctx.contracts;
+  const tokenContract = token === "stETH" ? lido : wstETH;
+
+  const tokenBalanceBefore = await tokenContract.balanceOf(owner.address);
+  const nftBalanceBefore = await withdrawalQueue.balanceOf(owner.address);
+
+  const receipt = await trace<ContractTransactionReceipt>(
+    `withdrawalQueue.requestWithdrawals (${token})`,
+    await send(),
+  );
+  const requestIds = ctx.getEvents(receipt, "WithdrawalRequested").map((event) => event.args.requestId as bigint);
+
+  const total = amounts.reduce((sum, amount) => sum + amount, 0n);
+  const tokenBalanceAfter = await tokenContract.balanceOf(owner.address);
+
+  // stETH is transferred in shares, so each request can be off by the rounding of the shares conversion
+  const tolerance = token === "stETH" ? 2n * BigInt(amounts.length) : 0n;
+  expect(tokenBalanceBefore - tokenBalanceAfter).to.be.approximately(total, tolerance, `${token} balance decrease`);
+  expect(await withdrawalQueue.balanceOf(owner.address)).to.equal(
+    nftBalanceBefore + BigInt(amounts.length),
+    "Withdrawal NFT balance",
+  );
+  expect(requestIds.length).to.equal(amounts.length, "Withdrawal requests count");
+
+  log.debug("Withdrawal requests", {
+    "Owner": owner.address,
+    "Token": token,
+    "Total": formatEther(total),
+    "Request ids": requestIds.join(", "),
+  });
+
+  return requestIds;
+};
+
+/**
+ * Request the stETH withdrawals, the queue is approved to spend the amounts.
+ */
+export const requestWithdrawals = async (ctx: ProtocolContext, owner: HardhatEthersSigner, amounts: bigint[]) => {
+  const { lido, withdrawalQueue } = ctx.contracts;
+
+  const total = amounts.reduce((sum, amount) => sum + amount, 0n);
+  await lido.connect(owner).approve(withdrawalQueue.address, total);
+
+  return sendWithdrawalRequests(ctx, owner, amounts, "stETH", () =>
+    withdrawalQueue.connect(owner).requestWithdrawals(amounts, owner.address),
+  );
+};
+
+/**
+ * Request the stETH withdrawals with the EIP-2612 permit instead of the approval.
+ */
+export const requestWithdrawalsWithPermit = async (
+  ctx: ProtocolContext,
+  owner: HardhatEthersSigner,
+  amounts: bigint[],
+) => {
+  const { lido, withdrawalQueue } = ctx.contracts;
+
+  const total = amounts.reduce((sum, amount) => sum + amount, 0n);
+  const permit = await signWithdrawalPermit(ctx, owner, lido, total);
+
+  return sendWithdrawalRequests(ctx, owner, amounts, "stETH", () =>
+    withdrawalQueue.connect(owner).requestWithdrawalsWithPermit(amounts, owner.address, permit),
+  );
+};
+
+/**
+ * Request the wstETH withdrawals, the queue is approved to spend the amounts.
+ */
+export const requestWithdrawalsWstETH = async (ctx: ProtocolContext, owner: HardhatEthersSigner, amounts: bigint[]) => {
+  const { wstETH, withdrawalQueue } = ctx.contracts;
+
+  const total = amounts.reduce((sum, amount) => sum + amount, 0n);
+  await wstETH.connect(owner).approve(withdrawalQueue.address, total);
+
+  return sendWithdrawalRequests(ctx, owner, amounts, "wstETH", () =>
+    withdrawalQueue.connect(owner).requestWithdrawalsWstETH(amounts, owner.address),
+  );
+};
+
+/**
+ * Request the wstETH withdrawals with the EIP-2612 permit instead of the approval.
+ */
+export const requestWithdrawalsWstETHWithPermit = async (
+  ctx: ProtocolContext,
+  owner: HardhatEthersSigner,
+  amounts: bigint[],
+) => {
+  const { wstETH, withdrawalQueue } = ctx.contracts;
+
+  const total = amounts.reduce((sum, amount) => sum + amount, 0n);
+  const permit = await signWithdrawalPermit(ctx, owner, wstETH, total);
+
+  return sendWithdrawalRequests(ctx, owner, amounts, "wstETH", () =>
+    withdrawalQueue.connect(owner).requestWithdrawalsWstETHWithPermit(amounts, owner.address, permit),
+  );
+};
+
+/**
+ * Finalize the withdrawal requests up to the given one with a single report.
+ * The missing ether comes from the validators exited to the withdrawal vault, so no ether is minted or rewarded.
+ */
+export const finalizeUpTo = async (ctx: ProtocolContext, requestId: bigint) => {
+  const { lido, withdrawalQueue, withdrawalVault, elRewardsVault, oracleReportSanityChecker } = ctx.contracts;
+
+  const lastFinalizedRequestId = await withdrawalQueue.getLastFinalizedRequestId();
+  if (requestId <= lastFinalizedRequestId) {
+    log.debug("Withdrawal request is already finalized", { "Request id": requestId });
+    return;
+  }
+
+  const ids = Array.from(
+    { length: Number(requestId - lastFinalizedRequestId) },
+    (_, i) => lastFinalizedRequestId + 1n + BigInt(i),
+  );
+  const statuses = await withdrawalQueue.getWithdrawalStatus(ids);
+
+  // The report ref slot follows the current time, so the requests get older than the margin by then
+  const { requestTimestampMargin } = await oracleReportSanityChecker.getOracleReportLimits();
+  const lastRequestTimestamp = statuses[statuses.length - 1].timestamp;
+  const currentTimestamp = await getCurrentBlockTimestamp();
+  if (lastRequestTimestamp + requestTimestampMargin > currentTimestamp) {
+    await advanceChainTime(lastRequestTimestamp + requestTimestampMargin - currentTimestamp);
+  }
+
+  const requiredEther = statuses.reduce(
+    (sum: bigint, status: { amountOfStETH: bigint }) => sum + status.amountOfStETH,
+    0n,
+  );
+  const unfinalizedStETH = await withdrawalQueue.unfinalizedStETH();
+  const bufferedEther = await lido.getBufferedEther();
+  const availableEther =
+    (await ethers.provider.getBalance(withdrawalVault.address)) +
+    (await ethers.provider.getBalance(elRewardsVault.address)) +
+    BigIntMath.min(bufferedEther, unfinalizedStETH);
+
+  let clDiff = 0n;
+  if (requiredEther > availableEther) {
+    const exitedEther = requiredEther - availableEther;
+    const withdrawalVaultBalance = await ethers.provider.getBalance(withdrawalVault.address);
+    await updateBalance(withdrawalVault.address, withdrawalVaultBalance + exitedEther);
+    clDiff = -exitedEther;
+  }
+
+  const { data } = await report(ctx, { clDiff, dryRun: true });
+  const batches = clampFinalizationBatches(
+    data.withdrawalFinalizationBatches as bigint[],
+    requestId,
+    lastFinalizedRequestId,
+  );
+
+  if (batches[batches.length - 1] !== requestId) {
+    throw new Error(`Can't finalize up to request ${requestId}, the batches end at ${batches[batches.length - 1]}`);
+  }
+
+  const lockedEtherBefore = await withdrawalQueue.getLockedEtherAmount();
+
+  await report(ctx, {
+    clDiff,
+    waitNextReportTime: false,
+    refSlot: data.refSlot as bigint,
+    withdrawalFinalizationBatches: batches,
+    simulatedShareRate: data.simulatedShareRate as bigint,
+  });
+
+  expect(await withdrawalQueue.getLastFinalizedRequestId()).to.equal(requestId, "Last finalized request id");
+  expect(await withdrawalQueue.getLockedEtherAmount()).to.be.greaterThan(lockedEtherBefore, "Locked ether");
+
+  log.success(`Finalized withdrawal requests up to ${requestId}`);
+};
+
+/**
+ * Claim all the finalized withdrawal requests of the owner.
+ * Returns the claimed request ids and the amount of ether.
+ */
+export const claimAll = async (ctx: ProtocolContext, owner: HardhatEthersSigner) => {
+  const { withdrawalQueue } = ctx.contracts;
+
+  const ownerRequestIds = [...(await withdrawalQueue.getWithdrawalRequests(owner.address))].sort((a, b) =>
+    a < b ? -1 : a > b ? 1 : 0,
+  );
+  const statuses = ownerRequestIds.length > 0 ? await withdrawalQueue.getWithdrawalStatus(ownerRequestIds) : [];
+  const requestIds = ownerRequestIds.filter((_, i) => statuses[i].isFinalized && !statuses[i].isClaimed);
+
+  if (requestIds.length === 0) {
+    log.debug("No withdrawal requests to claim", { Owner: owner.address });
+    return { requestIds, claimedEther: 0n };
+  }
+
+  const lastCheckpointIndex = await withdrawalQueue.getLastCheckpointIndex();
+  const hints = ((await withdrawalQueue.findCheckpointHints(requestIds, 1n, lastCheckpointIndex)) as Result).toArray();
+  const claimableEther = await withdrawalQueue.getClaimableEther(requestIds, hints);
+  const claimedEther = claimableEther.reduce((sum: bigint, amount: bigint) => sum + amount, 0n);
+
+  const ethBalanceBefore = await ethers.provider.getBalance(owner.address);
+  const nftBalanceBefore = await withdrawalQueue.balanceOf(owner.address);
+
+  const claimTx = await withdrawalQueue.connect(owner).claimWithdrawals(requestIds, hints);
+  const receipt = await trace<ContractTransactionReceipt>("withdrawalQueue.claimWithdrawals", claimTx);
+
+  const spentGas = receipt.gasUsed * receipt.gasPrice;
+  expect(await ethers.provider.getBalance(owner.address)).to.equal(
+    ethBalanceBefore + claimedEther - spentGas,
+    "ETH balance after claim",
+  );
+  expect(await withdrawalQueue.balanceOf(owner.address)).to.equal(
+    nftBalanceBefore - BigInt(requestIds.length),
+    "Withdrawal NFT balance after claim",
+  );
+
+  log.debug("Claimed withdrawals", {
+    "Owner": owner.address,
+    "Request ids": requestIds.join(", "),
+    "Claimed ether": formatEther(claimedEther),
+  });
+
+  return { requestIds, claimedEther };
+};
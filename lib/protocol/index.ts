@@ -1,2 +1,5 @@
 export { getProtocolContext } from "./context";
-export type { ProtocolContext, ProtocolSigners, ProtocolContracts } from "./types";
+export { registerStakingModuleContract } from "./discover";
+export { verifyDiscovery } from "./verify";
+export type { ProtocolContext, ProtocolSigners, ProtocolContracts, StakingModule } from "./types";
+export { StakingModuleStatus } from "./types";
@@ -1,6 +1,10 @@
+import { existsSync, readFileSync } from "node:fs";
+import path from "node:path";
 import * as process from "node:process";
 
+import { getAddress, isAddress } from "ethers";
 import hre from "hardhat";
+import { parse as parseYaml } from "yaml";
 
 import { log } from "lib";
 
@@ -36,8 +40,63 @@ export class ProtocolNetworkConfig {
   get(key: keyof ProtocolNetworkItems): string {
     return process.env[this.env[key]] || this.defaults[key] || "";
   }
+
+  /**
+   * Check that the required items are set and every set item is a valid checksummed address.
+   * Throws a single error listing every missing or invalid item along with its env variable.
+   */
+  validate() {
+    const issues: string[] = [];
+    for (const key of Object.keys(this.env) as (keyof ProtocolNetworkItems)[]) {
+      const value = this.get(key);
+      if (!value) {
+        if (REQUIRED_NETWORK_ITEMS.includes(key)) issues.push(formatIssue(key, this.env[key], "is not set"));
+        continue;
+      }
+
+      const error = getAddressError(value);
+      if (error) issues.push(formatIssue(key, this.env[key], error));
+    }
+
+    if (issues.length > 0) {
+      throw new Error(`Invalid protocol network config (${this.source}):\n${issues.join("\n")}`);
+    }
+  }
 }
 
+const REQUIRED_NETWORK_ITEMS: (keyof ProtocolNetworkItems)[] = [
+  "locator",
+  "agentAddress",
+  "votingAddress",
+  "easyTrackAddress",
+];
+
+const formatIssue = (key: string, env: string | undefined, message: string) =>
+  env ? `  - ${key} (${env}): ${message}` : `  - ${key}: ${message}`;
+
+const getAddressError = (value: unknown): string | null => {
+  // YAML reads the unquoted 0x... values as hex numbers
+  if (typeof value === "number" || typeof value === "bigint") {
+    return `expected an address string, got number ${value}, quote the address, e.g. "0x..."`;
+  }
+
+  if (typeof value !== "string") {
+    return `expected an address string, got ${typeof value}`;
+  }
+
+  const lowercased = value.toLowerCase();
+  if (!isAddress(lowercased)) {
+    return `${value} is not a valid address`;
+  }
+
+  // Mixed case addresses with a wrong checksum are rejected by isAddress
+  if (!isAddress(value)) {
+    return `invalid checksum for ${value}, expected ${getAddress(lowercased)}`;
+  }
+
+  return null;
+};
+
 const defaultEnv = {
   locator: "LOCATOR_ADDRESS",
   // signers
@@ -65,6 +124,7 @@ const defaultEnv = {
   sdvt: "SIMPLE_DVT_REGISTRY_ADDRESS",
   // hash consensus
   hashConsensus: "HASH_CONSENSUS_ADDRESS",
+  hashConsensusForVEBO: "HASH_CONSENSUS_FOR_VEBO_ADDRESS",
 } as ProtocolNetworkItems;
 
 const getPrefixedEnv = (prefix: string, obj: ProtocolNetworkItems) =>
@@ -97,12 +157,112 @@ async function getMainnetForkNetworkConfig(): Promise<ProtocolNetworkConfig> {
   return new ProtocolNetworkConfig(getPrefixedEnv("MAINNET", defaultEnv), defaults, "mainnet-fork");
 }
 
+/**
+ * Lido DAO addresses on the public testnets, used when there is no deployment file for the network.
+ * https://docs.lido.fi/deployed-contracts/sepolia
+ * https://docs.lido.fi/deployed-contracts/holesky
+ */
+const testnetForkDefaults: Record<string, Partial<ProtocolNetworkItems>> = {
+  sepolia: {
+    locator: "0x8f6254332f69557A72b0DA2D5F0Bc07d4CA991E7",
+    agentAddress: "0x32A0E5828B62AAb932362a4816ae03b860b65e83",
+    votingAddress: "0x39A0EbdEE54cB319f4F42141daaBDb6ba25D341A",
+    easyTrackAddress: "0x32A0E5828B62AAb932362a4816ae03b860b65e83", // no Easy Track on Sepolia, falls back to agent
+  },
+  holesky: {
+    locator: "0x28FAB2059C713A7F9D8c86Db49f9bb0e96Af1ef8",
+    agentAddress: "0xE92329EC7ddB11D25e25b3c21eeBf11f15eB325d",
+    votingAddress: "0xdA7d2573Df555002503F29aA4003e398d28cc00f",
+    easyTrackAddress: "0x2819B65021E13CEEB9AC33E77DB32c7e64e7520D",
+  },
+};
+
+async function getTestnetForkNetworkConfig(network: string): Promise<ProtocolNetworkConfig> {
+  const deploymentFile = path.join(hre.config.paths.root, `deployed-${network}.json`);
+  const config = existsSync(deploymentFile) ? await parseDeploymentJson(network) : null;
+
+  const defaults: Record<keyof ProtocolNetworkItems, string> = {
+    ...getDefaults(defaultEnv),
+    ...testnetForkDefaults[network],
+    ...(config && {
+      locator: config["lidoLocator"].proxy.address,
+      agentAddress: config["app:aragon-agent"].proxy.address,
+      votingAddress: config["app:aragon-voting"].proxy.address,
+    }),
+  };
+  return new ProtocolNetworkConfig(getPrefixedEnv(network.toUpperCase(), defaultEnv), defaults, `${network}-fork`);
+}
+
+/**
+ * Read the protocol config file and validate it against the ProtocolNetworkItems schema.
+ * The file is a flat JSON or YAML object mapping the items to addresses, e.g. `locator: "0x..."`.
+ */
+export function readProtocolConfigFile(
+  file: string,
+  env: Record<keyof ProtocolNetworkItems, string>,
+): Partial<ProtocolNetworkItems> {
+  if (!existsSync(file)) {
+    throw new Error(`Protocol config file ${file} doesn't exist, check PROTOCOL_CONFIG`);
+  }
+
+  const content = readFileSync(file, "utf-8");
+  const isYaml = [".yaml", ".yml"].includes(path.extname(file).toLowerCase());
+
+  let config: unknown;
+  try {
+    config = isYaml ? parseYaml(content) : JSON.parse(content);
+  } catch (e) {
+    throw new Error(`Failed to parse protocol config file ${file}: ${(e as Error).message}`);
+  }
+
+  if (typeof config !== "object" || config === null || Array.isArray(config)) {
+    throw new Error(`Protocol config file ${file} must contain an object of addresses`);
+  }
+
+  const issues: string[] = [];
+  for (const [key, value] of Object.entries(config)) {
+    if (!(key in env)) {
+      issues.push(formatIssue(key, undefined, "unknown item"));
+      continue;
+    }
+
+    const error = getAddressError(value);
+    if (error) issues.push(formatIssue(key, env[key as keyof ProtocolNetworkItems], error));
+  }
+
+  if (issues.length > 0) {
+    throw new Error(`Invalid protocol config file ${file}:\n${issues.join("\n")}`);
+  }
+
+  return config as Partial<ProtocolNetworkItems>;
+}
+
+/**
+ * Get the network config, with the file from PROTOCOL_CONFIG taking precedence over the defaults.
+ * Env variables still override both.
+ */
 export async function getNetworkConfig(network: string): Promise<ProtocolNetworkConfig> {
+  const config = await getDefaultNetworkConfig(network);
+
+  const file = process.env.PROTOCOL_CONFIG;
+  if (!file) {
+    return config;
+  }
+
+  const items = readProtocolConfigFile(file, config.env);
+  return new ProtocolNetworkConfig(config.env, { ...config.defaults, ...items }, `${config.source}+${file}`);
+}
+
+async function getDefaultNetworkConfig(network: string): Promise<ProtocolNetworkConfig> {
   switch (network) {
     case "local":
       return getLocalNetworkConfig(network, "fork");
     case "mainnet-fork":
       return getMainnetForkNetworkConfig();
+    case "sepolia-fork":
+      return getTestnetForkNetworkConfig("sepolia");
+    case "holesky-fork":
+      return getTestnetForkNetworkConfig("holesky");
     case "hardhat":
       if (isNonForkingHardhatNetwork()) {
         return getLocalNetworkConfig(network, "scratch");
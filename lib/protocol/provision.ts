@@ -4,6 +4,7 @@ import {
   ensureStakeLimit,
   norEnsureOperators,
   unpauseStaking,
+  unpauseValidatorsExitBusOracle,
   unpauseWithdrawalQueue,
 } from "./helpers";
 import { ProtocolContext } from "./types";
@@ -14,12 +15,16 @@ import { ProtocolContext } from "./types";
 export const provision = async (ctx: ProtocolContext) => {
   await ensureHashConsensusInitialEpoch(ctx);
 
+  await ensureHashConsensusInitialEpoch(ctx, ctx.contracts.hashConsensusForVEBO);
+
   await ensureOracleCommitteeMembers(ctx, 5n);
 
   await unpauseStaking(ctx);
 
   await unpauseWithdrawalQueue(ctx);
 
+  await unpauseValidatorsExitBusOracle(ctx);
+
   await norEnsureOperators(ctx, 3n, 5n);
 
   await ensureStakeLimit(ctx);
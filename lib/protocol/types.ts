@@ -8,6 +8,7 @@ import {
   Burner,
   DepositSecurityModule,
   HashConsensus,
+  IStakingModule,
   Kernel,
   LegacyOracle,
   Lido,
@@ -51,6 +52,7 @@ export type ProtocolNetworkItems = {
   sdvt: string;
   // hash consensus
   hashConsensus: string;
+  hashConsensusForVEBO: string;
 };
 
 export interface ContractTypes {
@@ -71,6 +73,7 @@ export interface ContractTypes {
   ACL: ACL;
   HashConsensus: HashConsensus;
   NodeOperatorsRegistry: NodeOperatorsRegistry;
+  IStakingModule: IStakingModule;
   WstETH: WstETH;
 }
 
@@ -106,13 +109,35 @@ export type AragonContracts = {
 
 export type StakingModuleContracts = {
   nor: LoadedContract<NodeOperatorsRegistry>;
-  sdvt: LoadedContract<NodeOperatorsRegistry>;
+  sdvt?: LoadedContract<NodeOperatorsRegistry>; // missing when the staking router has a single module
 };
 
 export type StakingModuleName = "nor" | "sdvt";
 
+/**
+ * Mirrors StakingRouter.StakingModuleStatus.
+ */
+export enum StakingModuleStatus {
+  Active,
+  DepositsPaused,
+  Stopped,
+}
+
+export type StakingModule<T extends BaseContract = BaseContract> = {
+  id: bigint;
+  name: string;
+  address: string;
+  fee: bigint; // basis points
+  treasuryFee: bigint; // basis points
+  targetShare: bigint; // basis points
+  status: StakingModuleStatus;
+  contractName: ContractName;
+  contract: LoadedContract<T>;
+};
+
 export type HashConsensusContracts = {
   hashConsensus: LoadedContract<HashConsensus>;
+  hashConsensusForVEBO: LoadedContract<HashConsensus>;
 };
 
 export type WstETHContracts = {
@@ -136,10 +161,12 @@ export type Signer = keyof ProtocolSigners;
 export type ProtocolContextFlags = {
   isScratchDeploy: boolean;
   withSimpleDvtModule: boolean;
+  withInvariantChecks: boolean;
 };
 
 export type ProtocolContext = {
   contracts: ProtocolContracts;
+  modules: StakingModule[];
   signers: ProtocolSigners;
   interfaces: Array<BaseContract["interface"]>;
   flags: ProtocolContextFlags;
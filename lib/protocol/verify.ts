@@ -0,0 +1,124 @@
+import hre from "hardhat";
+
+import { log } from "lib";
+
+import { CoreContracts, ProtocolContext } from "./types";
+
+type Mismatch = {
+  check: string;
+  expected: string;
+  actual: string;
+};
+
+const LOCATOR_ITEMS = [
+  "accountingOracle",
+  "depositSecurityModule",
+  "elRewardsVault",
+  "legacyOracle",
+  "lido",
+  "oracleReportSanityChecker",
+  "burner",
+  "stakingRouter",
+  "validatorsExitBusOracle",
+  "withdrawalQueue",
+  "withdrawalVault",
+  "oracleDaemonConfig",
+] as const satisfies (keyof CoreContracts)[];
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Check that every discovered contract has code on the current network.
+ */
+const getMissingCode = async (ctx: ProtocolContext): Promise<Mismatch[]> => {
+  const entries = Object.entries(ctx.contracts).filter(([, contract]) => contract !== undefined);
+  const codes = await Promise.all(entries.map(([, contract]) => hre.ethers.provider.getCode(contract.address)));
+
+  return entries
+    .filter((_, i) => codes[i] === "0x")
+    .map(([name, contract]) => ({
+      check: `${name} code`,
+      expected: "contract",
+      actual: `no code at ${contract.address}`,
+    }));
+};
+
+/**
+ * Cross-check the discovered contracts against the on-chain wiring.
+ */
+const getWiringMismatches = async (ctx: ProtocolContext): Promise<Mismatch[]> => {
+  const { contracts } = ctx;
+  const { locator, lido, kernel, acl, withdrawalQueue, wstETH, stakingRouter } = contracts;
+  const { accountingOracle, hashConsensus, validatorsExitBusOracle, hashConsensusForVEBO } = contracts;
+
+  const checks: Mismatch[] = [];
+
+  for (const name of LOCATOR_ITEMS) {
+    checks.push({ check: `locator.${name}()`, expected: await locator[name](), actual: contracts[name].address });
+  }
+
+  checks.push(
+    { check: "withdrawalQueue.WSTETH()", expected: await withdrawalQueue.WSTETH(), actual: wstETH.address },
+    {
+      check: "accountingOracle.getConsensusContract()",
+      expected: await accountingOracle.getConsensusContract(),
+      actual: hashConsensus.address,
+    },
+    {
+      check: "validatorsExitBusOracle.getConsensusContract()",
+      expected: await validatorsExitBusOracle.getConsensusContract(),
+      actual: hashConsensusForVEBO.address,
+    },
+    { check: "lido.kernel()", expected: await lido.kernel(), actual: kernel.address },
+    { check: "kernel.acl()", expected: await kernel.acl(), actual: acl.address },
+  );
+
+  const mismatches = checks.filter(({ expected, actual }) => !sameAddress(expected, actual));
+
+  const registered = (await stakingRouter.getStakingModules()).map((module) => module.stakingModuleAddress);
+  const stakingModules = [
+    ...ctx.modules.map((module) => ({ name: `module ${module.id} (${module.name})`, address: module.address })),
+    { name: "nor", address: contracts.nor.address },
+    ...(contracts.sdvt ? [{ name: "sdvt", address: contracts.sdvt.address }] : []),
+  ];
+
+  for (const { name, address } of stakingModules) {
+    if (!registered.some((registeredAddress) => sameAddress(registeredAddress, address))) {
+      mismatches.push({ check: `${name} in stakingRouter`, expected: "registered module", actual: address });
+    }
+  }
+
+  return mismatches;
+};
+
+/**
+ * Verify that the discovered contracts are wired together, e.g. env overrides don't point at another network.
+ * Prints a table of mismatches and throws if there are any.
+ */
+export const verifyDiscovery = async (ctx: ProtocolContext) => {
+  // The wiring can't be read from the contracts without code, so fail before calling them
+  let mismatches = await getMissingCode(ctx);
+  if (mismatches.length === 0) {
+    mismatches = await getWiringMismatches(ctx);
+  }
+
+  if (mismatches.length > 0) {
+    log.error(`Discovered contracts don't match the wiring on ${hre.network.name}`);
+    log.table(mismatches);
+
+    const details = mismatches.map(
+      ({ check, expected, actual }) => `  - ${check}: expected ${expected}, got ${actual}`,
+    );
+
+    throw new Error(
+      `Discovery verification failed with ${mismatches.length} mismatch(es), ` +
+        `check that the address overrides point at the current network:\n${details.join("\n")}`,
+    );
+  }
+
+  log.debug("Discovery verified", {
+    "Network": hre.network.name,
+    "Contracts": Object.keys(ctx.contracts).length,
+    "Staking modules": ctx.modules.length,
+  });
+};
@@ -1,4 +1,15 @@
+import { readFileSync, writeFileSync } from "node:fs";
+
 import { PUBKEY_LENGTH_HEX, SIGNATURE_LENGTH_HEX } from "./constants";
+import {
+  DepositData,
+  DepositDataOptions,
+  DepositDataValidationOptions,
+  formatDepositDataJson,
+  generateDepositData,
+  parseDepositDataJson,
+  validateDepositData,
+} from "./deposit-data";
 import { de0x } from "./string";
 
 class ValidatorKeys {
@@ -17,6 +28,21 @@ class ValidatorKeys {
     this.count = this.publicKeysList.length;
   }
 
+  /**
+   * Load the keys from the `deposit_data-*.json` file of the staking-deposit-cli.
+   * The file is rejected if any deposit doesn't match the withdrawal credentials, the fork version or the amount.
+   */
+  static fromDepositDataJson(
+    path: string,
+    options: Partial<DepositDataValidationOptions> &
+      Pick<DepositDataValidationOptions, "withdrawalCredentials" | "forkVersion">,
+  ): DepositDataValidatorKeys {
+    const depositData = parseDepositDataJson(readFileSync(path, "utf8"));
+    validateDepositData(depositData, options);
+
+    return new DepositDataValidatorKeys(depositData);
+  }
+
   get(index: number): string[] {
     if (index < 0 || index >= this.count) {
       throw new Error("Index out of range");
@@ -70,4 +96,43 @@ class FakeValidatorKeys extends ValidatorKeys {
   }
 }
 
-export { ValidatorKeys, FakeValidatorKeys };
+/**
+ * Validator keys along with their deposit data, generated from the seed or imported from the deposit CLI file.
+ */
+class DepositDataValidatorKeys extends ValidatorKeys {
+  public readonly depositData: DepositData[];
+
+  constructor(depositData: DepositData[]) {
+    super(
+      depositData.map(({ pubkey }) => pubkey),
+      depositData.map(({ signature }) => signature),
+    );
+
+    this.depositData = depositData;
+  }
+
+  /**
+   * Keys with the valid deposit signatures for the withdrawal credentials, derived from the seed.
+   */
+  static generate(
+    length: number,
+    options: Partial<DepositDataOptions> & Pick<DepositDataOptions, "seed" | "withdrawalCredentials" | "forkVersion">,
+  ) {
+    return new DepositDataValidatorKeys(generateDepositData(length, options));
+  }
+
+  /**
+   * The deposit data in the staking-deposit-cli format, written to the file if the path is given.
+   */
+  toDepositDataJson(path?: string) {
+    const json = formatDepositDataJson(this.depositData);
+
+    if (path) {
+      writeFileSync(path, `${json}\n`, { encoding: "utf8", flag: "w" });
+    }
+
+    return json;
+  }
+}
+
+export { ValidatorKeys, FakeValidatorKeys, DepositDataValidatorKeys };
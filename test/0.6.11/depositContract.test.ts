@@ -0,0 +1,262 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+
+import { DepositContract } from "typechain-types";
+
+import {
+  computeDepositDataRoot,
+  DepositData,
+  DepositDataJsonEntry,
+  DepositDataValidatorKeys,
+  deriveChildSecretKey,
+  deriveMasterSecretKey,
+  ether,
+  formatDepositDataJson,
+  generateDepositData,
+  parseDepositDataJson,
+  streccak,
+  validateDepositData,
+  ValidatorKeys,
+  verifyDepositData,
+} from "lib";
+
+import { Snapshot } from "test/suite";
+
+const SEED = streccak("deposit-data-seed");
+const WITHDRAWAL_CREDENTIALS = "0x010000000000000000000000b9d7934878b5fb9610b3fe8a5e441e8fad7e293f";
+const MAINNET_FORK_VERSION = "0x00000000";
+
+describe("DepositContract.sol", () => {
+  let depositor: HardhatEthersSigner;
+
+  let depositContract: DepositContract;
+
+  let originalState: string;
+
+  before(async () => {
+    [depositor] = await ethers.getSigners();
+
+    depositContract = await ethers.deployContract("DepositContract");
+  });
+
+  beforeEach(async () => (originalState = await Snapshot.take()));
+
+  afterEach(async () => await Snapshot.restore(originalState));
+
+  context("Deposit data generation", () => {
+    it("Derives the EIP-2333 test vector keys", () => {
+      const seed =
+        "0xc55257c360c07c72029aebc1b53c05ed0362ada38ead3e3e9efa3708e53495531f09a6987599d18264c1e1c92f2cf141630c7a3c4ab7c81b2f001698e7463b04";
+
+      const masterSK = deriveMasterSecretKey(seed);
+
+      expect(masterSK).to.equal(6083874454709270928345386274498605044986640685124978867557563392430687146096n);
+      expect(deriveChildSecretKey(masterSK, 0)).to.equal(
+        20397789859736650942317412262472558107875392172444076792671091975210932703118n,
+      );
+    });
+
+    it("Computes the root and verifies the signature of the Sepolia deposit", () => {
+      const depositData = {
+        pubkey: "0x90823dc2e5ab8a52a0b32883ea8451cbe4c921a42ce439f4fb306a90e9f267e463241da7274b6d44c2e4b95ddbcb0ad3",
+        withdrawalCredentials: "0x005bfe00d82068a0c2a6687afaf969dad5a9c663cb492815a65d203885aaf993",
+        amount: ether("32"),
+        signature:
+          "0x802899068eb4b37c95d46869947cac42b9c65b90fcb3fde3854c93ad5737800c01e9c82e174c8ed5cc18210bd60a94ea0082a850817b1dddd4096059b6846417b05094c59d3dd7f4028ed9dff395755f9905a88015b0ed200a7ec1ed60c24922",
+        depositMessageRoot: "",
+        depositDataRoot: "0x8b09ed1d0fb3b8e3bb8398c6b77ee3d8e4f67c23cb70555167310ef02b06e5f5",
+        forkVersion: "0x90000069",
+      };
+
+      const { pubkey, withdrawalCredentials, amount, signature } = depositData;
+
+      expect(computeDepositDataRoot(pubkey, withdrawalCredentials, amount, signature)).to.equal(
+        depositData.depositDataRoot,
+      );
+      expect(verifyDepositData(depositData)).to.be.true;
+      expect(verifyDepositData({ ...depositData, forkVersion: MAINNET_FORK_VERSION })).to.be.false;
+    });
+
+    it("Generates the same keys for the same seed", () => {
+      const options = { seed: SEED, withdrawalCredentials: WITHDRAWAL_CREDENTIALS, forkVersion: MAINNET_FORK_VERSION };
+
+      const [first, second] = generateDepositData(2, options);
+      const [secondAgain] = generateDepositData(1, { ...options, startIndex: 1 });
+
+      expect(first.pubkey).to.not.equal(second.pubkey);
+      expect(secondAgain).to.deep.equal(second);
+      expect(verifyDepositData(first)).to.be.true;
+      expect(verifyDepositData(second)).to.be.true;
+    });
+
+    it("Builds the validator keys from the deposit data", () => {
+      const keys = DepositDataValidatorKeys.generate(2, {
+        seed: SEED,
+        withdrawalCredentials: WITHDRAWAL_CREDENTIALS,
+        forkVersion: MAINNET_FORK_VERSION,
+      });
+
+      expect(keys.count).to.equal(2);
+      expect(keys.get(1)).to.deep.equal([keys.depositData[1].pubkey, keys.depositData[1].signature]);
+    });
+  });
+
+  context("deposit_data.json", () => {
+    const options = { withdrawalCredentials: WITHDRAWAL_CREDENTIALS, forkVersion: MAINNET_FORK_VERSION };
+
+    let depositData: DepositData[];
+    let dir: string;
+
+    before(() => {
+      depositData = generateDepositData(3, { ...options, seed: SEED });
+      dir = mkdtempSync(join(tmpdir(), "deposit-data-"));
+    });
+
+    after(() => rmSync(dir, { recursive: true, force: true }));
+
+    const writeEntries = (entries: DepositDataJsonEntry[]) => {
+      const path = join(dir, `deposit_data-${Date.now()}.json`);
+      writeFileSync(path, JSON.stringify(entries));
+      return path;
+    };
+
+    const entries = () => JSON.parse(formatDepositDataJson(depositData)) as DepositDataJsonEntry[];
+
+    it("Formats the deposit data as the deposit CLI does", () => {
+      const [entry] = entries();
+
+      expect(entry.pubkey).to.equal(depositData[0].pubkey.slice(2));
+      expect(entry.amount).to.equal(32_000_000_000);
+      expect(entry.fork_version).to.equal("00000000");
+      expect(entry.network_name).to.equal("mainnet");
+    });
+
+    it("Parses back the formatted deposit data", () => {
+      expect(parseDepositDataJson(formatDepositDataJson(depositData))).to.deep.equal(depositData);
+    });
+
+    it("Rejects the deposit data without the roots", () => {
+      const [entry]: Partial<DepositDataJsonEntry>[] = entries();
+      delete entry.deposit_data_root;
+
+      expect(() => parseDepositDataJson(JSON.stringify([entry]))).to.throw("Deposit data 0: missing deposit_data_root");
+    });
+
+    it("Imports and exports the validator keys", () => {
+      const path = join(dir, "deposit_data.json");
+      const keys = DepositDataValidatorKeys.generate(3, { ...options, seed: SEED });
+
+      keys.toDepositDataJson(path);
+
+      const imported = ValidatorKeys.fromDepositDataJson(path, options);
+
+      expect(imported.count).to.equal(3);
+      expect(imported.slice()).to.deep.equal(keys.slice());
+      expect(imported.toDepositDataJson()).to.equal(keys.toDepositDataJson());
+    });
+
+    it("Rejects the deposit data of other withdrawal credentials", () => {
+      const path = writeEntries(entries());
+      const withdrawalCredentials = "0x010000000000000000000000" + "11".repeat(20);
+
+      expect(() => ValidatorKeys.fromDepositDataJson(path, { ...options, withdrawalCredentials })).to.throw(
+        "Deposit data 0: withdrawal credentials",
+      );
+    });
+
+    it("Rejects the deposit data of another network", () => {
+      const path = writeEntries(entries());
+
+      expect(() => ValidatorKeys.fromDepositDataJson(path, { ...options, forkVersion: "0x01017000" })).to.throw(
+        "Deposit data 0: fork version",
+      );
+    });
+
+    it("Rejects the deposit data of another amount", () => {
+      const [data] = generateDepositData(1, { ...options, seed: SEED, amount: ether("1") });
+
+      expect(() => validateDepositData([data], options)).to.throw("Deposit data 0: amount");
+    });
+
+    it("Rejects the duplicate pubkeys", () => {
+      const path = writeEntries([...entries(), entries()[1]]);
+
+      expect(() => ValidatorKeys.fromDepositDataJson(path, options)).to.throw(
+        "Deposit data 3: pubkey 0x" + entries()[1].pubkey + " is a duplicate of deposit data 1",
+      );
+    });
+
+    it("Rejects the invalid key and signature lengths", () => {
+      const [first, second] = entries();
+
+      expect(() =>
+        ValidatorKeys.fromDepositDataJson(writeEntries([{ ...first, pubkey: first.pubkey.slice(2) }]), options),
+      ).to.throw("Deposit data 0: invalid pubkey length 47");
+      expect(() =>
+        ValidatorKeys.fromDepositDataJson(writeEntries([first, { ...second, signature: "00" }]), options),
+      ).to.throw("Deposit data 1: invalid signature length 1");
+    });
+
+    it("Rejects the deposit data with the signature of another key", () => {
+      const [first, second] = depositData;
+      const forged = {
+        ...first,
+        signature: second.signature,
+        depositDataRoot: computeDepositDataRoot(
+          first.pubkey,
+          first.withdrawalCredentials,
+          first.amount,
+          second.signature,
+        ),
+      };
+
+      expect(() => validateDepositData([forged], { ...options, verifySignatures: false })).to.not.throw();
+      expect(() => validateDepositData([forged], options)).to.throw(
+        `Deposit data 0: invalid signature of ${first.pubkey}`,
+      );
+    });
+  });
+
+  context("deposit", () => {
+    it("Accepts the generated deposit data", async () => {
+      const [depositData] = generateDepositData(1, {
+        seed: SEED,
+        withdrawalCredentials: WITHDRAWAL_CREDENTIALS,
+        forkVersion: MAINNET_FORK_VERSION,
+      });
+
+      const { pubkey, withdrawalCredentials, signature, depositDataRoot, amount } = depositData;
+
+      await expect(
+        depositContract
+          .connect(depositor)
+          .deposit(pubkey, withdrawalCredentials, signature, depositDataRoot, { value: amount }),
+      ).to.emit(depositContract, "DepositEvent");
+
+      expect(await depositContract.get_deposit_count()).to.equal("0x0100000000000000");
+    });
+
+    it("Reverts on the deposit data root of another amount", async () => {
+      const [depositData] = generateDepositData(1, {
+        seed: SEED,
+        withdrawalCredentials: WITHDRAWAL_CREDENTIALS,
+        forkVersion: MAINNET_FORK_VERSION,
+        amount: ether("1"),
+      });
+
+      const { pubkey, withdrawalCredentials, signature, depositDataRoot } = depositData;
+
+      await expect(
+        depositContract
+          .connect(depositor)
+          .deposit(pubkey, withdrawalCredentials, signature, depositDataRoot, { value: ether("32") }),
+      ).to.be.revertedWith("DepositContract: reconstructed DepositData does not match supplied deposit_data_root");
+    });
+  });
+});
@@ -74,6 +74,9 @@ describe("DepositSecurityModule.sol", () => {
   let unrelatedGuardian1: Wallet;
   let unrelatedGuardian2: Wallet;
 
+  let attestMessagePrefix: string;
+  let pauseMessagePrefix: string;
+
   let originalState: string;
   let provider: typeof ethers.provider;
 
@@ -110,8 +113,8 @@ describe("DepositSecurityModule.sol", () => {
 
     dsm = await ethers.deployContract("DepositSecurityModule", Object.values(config));
 
-    DSMAttestMessage.setMessagePrefix(await dsm.ATTEST_MESSAGE_PREFIX());
-    DSMPauseMessage.setMessagePrefix(await dsm.PAUSE_MESSAGE_PREFIX());
+    attestMessagePrefix = await dsm.ATTEST_MESSAGE_PREFIX();
+    pauseMessagePrefix = await dsm.PAUSE_MESSAGE_PREFIX();
 
     await depositContract.set_deposit_root(DEPOSIT_ROOT);
     expect(await depositContract.get_deposit_root()).to.equal(DEPOSIT_ROOT);
@@ -628,7 +631,7 @@ describe("DepositSecurityModule.sol", () => {
 
     it("Reverts if signature is not guardian", async () => {
       const blockNumber = await time.latestBlock();
-      const validPauseMessage = new DSMPauseMessage(blockNumber, STAKING_MODULE_ID);
+      const validPauseMessage = new DSMPauseMessage(pauseMessagePrefix, blockNumber, STAKING_MODULE_ID);
 
       const sig = validPauseMessage.sign(guardian3.privateKey);
 
@@ -640,7 +643,7 @@ describe("DepositSecurityModule.sol", () => {
 
     it("Reverts if called by an anon submitting an unrelated sig", async () => {
       const blockNumber = await time.latestBlock();
-      const validPauseMessage = new DSMPauseMessage(blockNumber, STAKING_MODULE_ID);
+      const validPauseMessage = new DSMPauseMessage(pauseMessagePrefix, blockNumber, STAKING_MODULE_ID);
 
       const sig = validPauseMessage.sign(guardian3.privateKey);
 
@@ -652,7 +655,7 @@ describe("DepositSecurityModule.sol", () => {
     it("Reverts if called with an expired `blockNumber` by a guardian", async () => {
       const blockNumber = await time.latestBlock();
       const staleBlockNumber = blockNumber - PAUSE_INTENT_VALIDITY_PERIOD_BLOCKS;
-      const validPauseMessage = new DSMPauseMessage(blockNumber, STAKING_MODULE_ID);
+      const validPauseMessage = new DSMPauseMessage(pauseMessagePrefix, blockNumber, STAKING_MODULE_ID);
 
       const sig = validPauseMessage.sign(guardian1.privateKey);
 
@@ -665,7 +668,7 @@ describe("DepositSecurityModule.sol", () => {
       const blockNumber = await time.latestBlock();
       const staleBlockNumber = blockNumber - PAUSE_INTENT_VALIDITY_PERIOD_BLOCKS;
 
-      const stalePauseMessage = new DSMPauseMessage(staleBlockNumber, STAKING_MODULE_ID);
+      const stalePauseMessage = new DSMPauseMessage(pauseMessagePrefix, staleBlockNumber, STAKING_MODULE_ID);
       const sig = stalePauseMessage.sign(guardian1.privateKey);
 
       await expect(
@@ -689,7 +692,7 @@ describe("DepositSecurityModule.sol", () => {
     it("Reverts if called with a future `blockNumber` by an anon submitting a guardian's sig", async () => {
       const futureBlockNumber = (await time.latestBlock()) + 100;
 
-      const futurePauseMessage = new DSMPauseMessage(futureBlockNumber, STAKING_MODULE_ID);
+      const futurePauseMessage = new DSMPauseMessage(pauseMessagePrefix, futureBlockNumber, STAKING_MODULE_ID);
       const sig = futurePauseMessage.sign(guardian1.privateKey);
 
       await expect(
@@ -715,7 +718,7 @@ describe("DepositSecurityModule.sol", () => {
     it("Pause if called by anon submitting sig of guardian", async () => {
       const blockNumber = await time.latestBlock();
 
-      const validPauseMessage = new DSMPauseMessage(blockNumber, STAKING_MODULE_ID);
+      const validPauseMessage = new DSMPauseMessage(pauseMessagePrefix, blockNumber, STAKING_MODULE_ID);
       const sig = validPauseMessage.sign(guardian2.privateKey);
 
       const tx = await dsm.connect(stranger).pauseDeposits(blockNumber, STAKING_MODULE_ID, sig);
@@ -729,7 +732,7 @@ describe("DepositSecurityModule.sol", () => {
     it("Do not pause and emits events if was paused before", async () => {
       const blockNumber = await time.latestBlock();
 
-      const validPauseMessage = new DSMPauseMessage(blockNumber, STAKING_MODULE_ID);
+      const validPauseMessage = new DSMPauseMessage(pauseMessagePrefix, blockNumber, STAKING_MODULE_ID);
       const sig = validPauseMessage.sign(guardian2.privateKey);
 
       const tx1 = await dsm.connect(stranger).pauseDeposits(blockNumber, STAKING_MODULE_ID, sig);
@@ -755,7 +758,7 @@ describe("DepositSecurityModule.sol", () => {
 
       const blockNumber = await time.latestBlock();
 
-      const validPauseMessage = new DSMPauseMessage(blockNumber, STAKING_MODULE_ID);
+      const validPauseMessage = new DSMPauseMessage(pauseMessagePrefix, blockNumber, STAKING_MODULE_ID);
       const sig = validPauseMessage.sign(guardian2.privateKey);
 
       const tx = await dsm.connect(stranger).pauseDeposits(blockNumber, STAKING_MODULE_ID, sig);
@@ -942,6 +945,7 @@ describe("DepositSecurityModule.sol", () => {
       expect(await stakingRouter.getStakingModuleNonce(STAKING_MODULE_ID)).to.equal(DEPOSIT_NONCE);
 
       validAttestMessage = new DSMAttestMessage(
+        attestMessagePrefix,
         block.number,
         block.hash,
         DEPOSIT_ROOT,
@@ -16,19 +16,23 @@ import {
   calcExtraDataListHash,
   calcReportDataHash,
   CONSENSUS_VERSION,
+  decodeExtraDataList,
   encodeExtraDataItem,
   encodeExtraDataItems,
   ether,
   EXTRA_DATA_FORMAT_EMPTY,
   EXTRA_DATA_FORMAT_LIST,
+  EXTRA_DATA_TYPE_EXITED_VALIDATORS,
   EXTRA_DATA_TYPE_STUCK_VALIDATORS,
   ExtraDataType,
   getReportDataItems,
+  KeyType,
   numberToHex,
   ONE_GWEI,
   OracleReport,
   packExtraDataList,
   shareRate,
+  validateExtraData,
 } from "lib";
 
 import { deployAndConfigureAccountingOracle } from "test/deploy";
@@ -670,4 +674,78 @@ describe("AccountingOracle.sol:submitReportExtraData", () => {
       expect(stateAfter.dataHash).to.equal(extraDataHash);
     });
   });
+
+  context("decodeExtraDataList", () => {
+    const toKeyType = ({ moduleId, nodeOpIds, keysCounts }: KeyType) => ({ moduleId, nodeOpIds, keysCounts });
+
+    it("decodes the packed extra data list back into items", () => {
+      const { extraData, extraDataList } = getReportData();
+
+      const items = decodeExtraDataList(extraDataList);
+
+      expect(items.map((item) => item.itemIndex)).to.deep.equal([0, 1, 2, 3, 4]);
+      expect(items.filter((item) => item.itemType === EXTRA_DATA_TYPE_STUCK_VALIDATORS).map(toKeyType)).to.deep.equal(
+        extraData.stuckKeys,
+      );
+      expect(items.filter((item) => item.itemType === EXTRA_DATA_TYPE_EXITED_VALIDATORS).map(toKeyType)).to.deep.equal(
+        extraData.exitedKeys,
+      );
+    });
+
+    it("throws on truncated data", () => {
+      const { extraDataList } = getReportData();
+
+      expect(() => decodeExtraDataList(extraDataList.slice(0, -2))).to.throw("InvalidExtraDataItem");
+    });
+  });
+
+  context("validateExtraData", () => {
+    it("accepts the data accepted by the contract", async () => {
+      const { extraDataList } = getReportData();
+      const limits = await sanityChecker.getOracleReportLimits();
+
+      expect(() => validateExtraData(decodeExtraDataList(extraDataList), limits)).to.not.throw();
+    });
+
+    it("rejects the data the contract rejects with InvalidExtraDataSortOrder", () => {
+      const extraDataDefault = getDefaultExtraData();
+      const { extraDataList } = getReportData({
+        extraData: {
+          ...extraDataDefault,
+          stuckKeys: [
+            ...extraDataDefault.stuckKeys,
+            { moduleId: 4, nodeOpIds: [1], keysCounts: [2] },
+            { moduleId: 4, nodeOpIds: [1], keysCounts: [2] },
+          ],
+        },
+      });
+
+      expect(() => validateExtraData(decodeExtraDataList(extraDataList))).to.throw("InvalidExtraDataSortOrder: item 4");
+    });
+
+    it("rejects unsorted node operator ids", () => {
+      const { extraDataList } = getReportData({
+        extraData: { stuckKeys: [{ moduleId: 1, nodeOpIds: [2, 1], keysCounts: [1, 1] }], exitedKeys: [] },
+      });
+
+      expect(() => validateExtraData(decodeExtraDataList(extraDataList))).to.throw("InvalidExtraDataSortOrder");
+    });
+
+    it("enforces OracleReportSanityChecker limits", () => {
+      const { extraDataList } = getReportData();
+      const items = decodeExtraDataList(extraDataList);
+
+      const tooFewItemsLimits = {
+        maxAccountingExtraDataListItemsCount: BigInt(items.length - 1),
+        maxNodeOperatorsPerExtraDataItemCount: 16n,
+      };
+      expect(() => validateExtraData(items, tooFewItemsLimits)).to.throw("MaxAccountingExtraDataItemsCountExceeded");
+
+      const tooFewNodeOpsLimits = {
+        maxAccountingExtraDataListItemsCount: BigInt(items.length),
+        maxNodeOperatorsPerExtraDataItemCount: 1n,
+      };
+      expect(() => validateExtraData(items, tooFewNodeOpsLimits)).to.throw("TooManyNodeOpsPerExtraDataItem: item 3");
+    });
+  });
 });
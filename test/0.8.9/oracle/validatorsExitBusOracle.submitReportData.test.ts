@@ -0,0 +1,126 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+
+import { HashConsensus__Harness, ValidatorsExitBus__Harness } from "typechain-types";
+
+import {
+  CONSENSUS_VERSION,
+  decodeExitRequestsList,
+  encodeExitRequestsList,
+  ExitRequest,
+  prepareExitBusReport,
+  sortExitRequests,
+  validateExitRequestsList,
+} from "lib";
+
+import { deployVEBO, initVEBO } from "test/deploy";
+import { Snapshot } from "test/suite";
+
+const PUBKEYS = [
+  "0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa",
+  "0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb",
+  "0xcccccccccccccccccccccccccccccccccccccccccccccccccccccccccccccccccccccccccccccccccccccccccccccccc",
+  "0xdddddddddddddddddddddddddddddddddddddddddddddddddddddddddddddddddddddddddddddddddddddddddddddddd",
+];
+
+describe("ValidatorsExitBusOracle.sol:submitReportData", () => {
+  let consensus: HashConsensus__Harness;
+  let oracle: ValidatorsExitBus__Harness;
+  let oracleVersion: bigint;
+  let originalState: string;
+
+  let admin: HardhatEthersSigner;
+  let member1: HardhatEthersSigner;
+
+  const requests: ExitRequest[] = [
+    { moduleId: 1, nodeOpId: 0, valIndex: 0, valPubkey: PUBKEYS[0] },
+    { moduleId: 1, nodeOpId: 0, valIndex: 2, valPubkey: PUBKEYS[1] },
+    { moduleId: 2, nodeOpId: 0, valIndex: 1, valPubkey: PUBKEYS[2] },
+    { moduleId: 2, nodeOpId: 3, valIndex: 7, valPubkey: PUBKEYS[3] },
+  ];
+
+  before(async () => {
+    [admin, member1] = await ethers.getSigners();
+
+    const deployed = await deployVEBO(admin.address);
+    oracle = deployed.oracle;
+    consensus = deployed.consensus;
+
+    await initVEBO({ admin: admin.address, oracle, consensus, resumeAfterDeploy: true });
+
+    oracleVersion = await oracle.getContractVersion();
+    await consensus.connect(admin).addMember(member1, 1);
+  });
+
+  beforeEach(async () => (originalState = await Snapshot.take()));
+
+  afterEach(async () => await Snapshot.restore(originalState));
+
+  const submitReportHash = async (exitRequests: ExitRequest[]) => {
+    const { refSlot } = await consensus.getCurrentFrame();
+    const report = prepareExitBusReport({ refSlot, requests: exitRequests });
+    await consensus.connect(member1).submitReport(refSlot, report.hash, CONSENSUS_VERSION);
+    return report;
+  };
+
+  context("encoding", () => {
+    it("round-trips the exit requests list", () => {
+      const data = encodeExitRequestsList(requests);
+
+      expect((data.length - 2) / 2).to.equal(requests.length * 64);
+      expect(decodeExitRequestsList(data)).to.deep.equal(requests);
+    });
+
+    it("sorts requests by the (moduleId, nodeOpId, valIndex) compound key", () => {
+      const shuffled = [requests[3], requests[1], requests[2], requests[0]];
+
+      expect(sortExitRequests(shuffled)).to.deep.equal(requests);
+    });
+
+    it("rejects unsorted or duplicated requests", () => {
+      expect(() => validateExitRequestsList([requests[1], requests[0]])).to.throw("InvalidRequestsDataSortOrder");
+      expect(() => validateExitRequestsList([requests[0], requests[0]])).to.throw("InvalidRequestsDataSortOrder");
+    });
+
+    it("rejects requests with zero module id", () => {
+      expect(() => validateExitRequestsList([{ ...requests[0], moduleId: 0 }])).to.throw("InvalidRequestsData");
+    });
+  });
+
+  context("submitReportData", () => {
+    it("accepts the report built by the encoder", async () => {
+      const report = await submitReportHash(requests);
+
+      const tx = await oracle.connect(member1).submitReportData(report.fields, oracleVersion);
+
+      for (const request of requests) {
+        await expect(tx)
+          .to.emit(oracle, "ValidatorExitRequest")
+          .withArgs(request.moduleId, request.nodeOpId, request.valIndex, request.valPubkey, await oracle.getTime());
+      }
+
+      const state = await oracle.getProcessingState();
+      expect(state.dataHash).to.equal(report.hash);
+      expect(state.requestsCount).to.equal(requests.length);
+      expect(state.requestsSubmitted).to.equal(requests.length);
+    });
+
+    it("updates last requested validator indices", async () => {
+      const report = await submitReportHash(requests);
+      await oracle.connect(member1).submitReportData(report.fields, oracleVersion);
+
+      expect(await oracle.getLastRequestedValidatorIndices(1, [0, 1])).to.deep.equal([2n, -1n]);
+      expect(await oracle.getLastRequestedValidatorIndices(2, [0, 3])).to.deep.equal([1n, 7n]);
+    });
+
+    it("accepts an empty report", async () => {
+      const report = await submitReportHash([]);
+
+      await oracle.connect(member1).submitReportData(report.fields, oracleVersion);
+
+      expect(await oracle.getTotalRequestsProcessed()).to.equal(0n);
+    });
+  });
+});
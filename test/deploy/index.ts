@@ -3,4 +3,5 @@ export * from "./baseOracle";
 export * from "./locator";
 export * from "./dao";
 export * from "./hashConsensus";
+export * from "./validatorExitBusOracle";
 export * from "./withdrawalQueue";
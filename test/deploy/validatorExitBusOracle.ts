@@ -0,0 +1,104 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { HashConsensus__Harness, ReportProcessor__Mock, ValidatorsExitBus__Harness } from "typechain-types";
+
+import {
+  CONSENSUS_VERSION,
+  EPOCHS_PER_FRAME,
+  EXIT_REQUESTS_DATA_FORMAT_LIST,
+  GENESIS_TIME,
+  SECONDS_PER_SLOT,
+  SLOTS_PER_EPOCH,
+} from "lib";
+
+import { deployHashConsensus } from "./hashConsensus";
+import { deployLidoLocator, updateLidoLocatorImplementation } from "./locator";
+
+async function deployOracleReportSanityCheckerForExitBus(lidoLocator: string, admin: string) {
+  const maxValidatorExitRequestsPerReport = 2000;
+  const limitsList = [0, 0, 0, 0, maxValidatorExitRequestsPerReport, 0, 0, 0, 0];
+  const managersRoster = [[admin], [admin], [admin], [admin], [admin], [admin], [admin], [admin], [admin], [admin]];
+
+  return await ethers.deployContract("OracleReportSanityChecker", [lidoLocator, admin, limitsList, managersRoster]);
+}
+
+export async function deployVEBO(
+  admin: string,
+  {
+    epochsPerFrame = EPOCHS_PER_FRAME,
+    secondsPerSlot = SECONDS_PER_SLOT,
+    slotsPerEpoch = SLOTS_PER_EPOCH,
+    genesisTime = GENESIS_TIME,
+    initialEpoch = 1n,
+  } = {},
+) {
+  const locator = await deployLidoLocator();
+  const locatorAddr = await locator.getAddress();
+
+  const oracle = await ethers.deployContract("ValidatorsExitBus__Harness", [secondsPerSlot, genesisTime, locatorAddr]);
+
+  const { consensus } = await deployHashConsensus(admin, {
+    reportProcessor: oracle as unknown as ReportProcessor__Mock,
+    epochsPerFrame,
+    slotsPerEpoch,
+    secondsPerSlot,
+    genesisTime,
+    initialEpoch,
+  });
+
+  const oracleReportSanityChecker = await deployOracleReportSanityCheckerForExitBus(locatorAddr, admin);
+
+  await updateLidoLocatorImplementation(locatorAddr, {
+    validatorsExitBusOracle: await oracle.getAddress(),
+    oracleReportSanityChecker: await oracleReportSanityChecker.getAddress(),
+  });
+
+  await consensus.setTime(genesisTime + initialEpoch * slotsPerEpoch * secondsPerSlot);
+
+  return {
+    locatorAddr,
+    oracle,
+    consensus,
+    oracleReportSanityChecker,
+  };
+}
+
+interface VEBOConfig {
+  admin: string;
+  oracle: ValidatorsExitBus__Harness;
+  consensus: HashConsensus__Harness;
+  dataSubmitter?: string;
+  consensusVersion?: bigint;
+  lastProcessingRefSlot?: number;
+  resumeAfterDeploy?: boolean;
+}
+
+export async function initVEBO({
+  admin,
+  oracle,
+  consensus,
+  dataSubmitter = undefined,
+  consensusVersion = CONSENSUS_VERSION,
+  lastProcessingRefSlot = 0,
+  resumeAfterDeploy = false,
+}: VEBOConfig) {
+  const initTx = await oracle.initialize(admin, await consensus.getAddress(), consensusVersion, lastProcessingRefSlot);
+
+  await oracle.grantRole(await oracle.MANAGE_CONSENSUS_CONTRACT_ROLE(), admin);
+  await oracle.grantRole(await oracle.MANAGE_CONSENSUS_VERSION_ROLE(), admin);
+  await oracle.grantRole(await oracle.PAUSE_ROLE(), admin);
+  await oracle.grantRole(await oracle.RESUME_ROLE(), admin);
+
+  if (dataSubmitter) {
+    await oracle.grantRole(await oracle.SUBMIT_DATA_ROLE(), dataSubmitter);
+  }
+
+  expect(await oracle.DATA_FORMAT_LIST()).to.equal(EXIT_REQUESTS_DATA_FORMAT_LIST);
+
+  if (resumeAfterDeploy) {
+    await oracle.resume();
+  }
+
+  return initTx;
+}
@@ -0,0 +1,207 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+
+import { advanceChainTime, ether, getCurrentBlockTimestamp, impersonate, updateBalance } from "lib";
+import { getProtocolContext, ProtocolContext } from "lib/protocol";
+import {
+  depositBufferedEtherWithGuardians,
+  deserializeAccountingModelState,
+  modelOracleReport,
+  modelOracleReportWithFinalization,
+  norEnsureOperators,
+  readAccountingModelState,
+  report,
+  serializeAccountingModelState,
+  setupGuardianCommittee,
+} from "lib/protocol/helpers";
+
+import { Snapshot } from "test/suite";
+
+const ONE_DAY = 24n * 60n * 60n;
+const SHARE_RATE_PRECISION = 10n ** 27n;
+
+describe("Accounting model", () => {
+  let ctx: ProtocolContext;
+
+  let stranger: HardhatEthersSigner;
+
+  let snapshot: string;
+  let originalState: string;
+
+  before(async () => {
+    ctx = await getProtocolContext();
+
+    [, , stranger] = await ethers.getSigners();
+
+    snapshot = await Snapshot.take();
+
+    const { lido } = ctx.contracts;
+
+    await norEnsureOperators(ctx, 3n, 5n);
+
+    await updateBalance(stranger.address, ether("1000000"));
+    await lido.connect(stranger).submit(ethers.ZeroAddress, { value: ether("3200") });
+
+    const committee = await setupGuardianCommittee(ctx);
+    await depositBufferedEtherWithGuardians(ctx, committee, 1n, stranger);
+
+    await report(ctx, { clDiff: ether("32") * 5n, clAppearedValidators: 5n, excludeVaultsBalances: true });
+  });
+
+  beforeEach(async () => (originalState = await Snapshot.take()));
+
+  afterEach(async () => await Snapshot.restore(originalState));
+
+  after(async () => await Snapshot.restore(snapshot));
+
+  const getReportInput = async (params: {
+    clDiff: bigint;
+    clAppearedValidators?: bigint;
+    withdrawalVaultBalance?: bigint;
+    elRewardsVaultBalance?: bigint;
+    sharesRequestedToBurn?: bigint;
+  }) => {
+    const { lido, elRewardsVault, withdrawalVault } = ctx.contracts;
+    const { beaconValidators, beaconBalance } = await lido.getBeaconStat();
+
+    const withdrawalVaultBalance = params.withdrawalVaultBalance ?? 0n;
+    const elRewardsVaultBalance = params.elRewardsVaultBalance ?? 0n;
+    await updateBalance(withdrawalVault.address, withdrawalVaultBalance);
+    await updateBalance(elRewardsVault.address, elRewardsVaultBalance);
+
+    return {
+      reportTimestamp: await getCurrentBlockTimestamp(),
+      timeElapsed: ONE_DAY,
+      clValidators: beaconValidators + (params.clAppearedValidators ?? 0n),
+      clBalance: beaconBalance + params.clDiff,
+      withdrawalVaultBalance,
+      elRewardsVaultBalance,
+      sharesRequestedToBurn: params.sharesRequestedToBurn ?? 0n,
+    };
+  };
+
+  const handleOracleReport = async (
+    input: Awaited<ReturnType<typeof getReportInput>>,
+    withdrawalFinalizationBatches: bigint[] = [],
+    simulatedShareRate = 0n,
+  ) => {
+    const { lido, accountingOracle } = ctx.contracts;
+    const accountingOracleAccount = await impersonate(accountingOracle.address, ether("100"));
+
+    const [postTotalPooledEther, postTotalShares, withdrawals, elRewards] = await lido
+      .connect(accountingOracleAccount)
+      .handleOracleReport.staticCall(
+        input.reportTimestamp,
+        input.timeElapsed,
+        input.clValidators,
+        input.clBalance,
+        input.withdrawalVaultBalance,
+        input.elRewardsVaultBalance,
+        input.sharesRequestedToBurn,
+        withdrawalFinalizationBatches,
+        simulatedShareRate,
+      );
+
+    return { postTotalPooledEther, postTotalShares, withdrawals, elRewards };
+  };
+
+  const scenarios = [
+    { name: "positive CL rebase", clDiff: ether("0.01") },
+    { name: "negative CL rebase", clDiff: -ether("0.01") },
+    { name: "appeared validators", clDiff: ether("32") * 2n + ether("0.01"), clAppearedValidators: 2n },
+    { name: "EL rewards", clDiff: ether("0.01"), elRewardsVaultBalance: ether("0.5") },
+    { name: "EL rewards above the rebase limit", clDiff: ether("0.01"), elRewardsVaultBalance: ether("1000") },
+    { name: "withdrawals", clDiff: -ether("32"), withdrawalVaultBalance: ether("32.01") },
+  ];
+
+  for (const scenario of scenarios) {
+    it(`Should match the contract for ${scenario.name}`, async () => {
+      const input = await getReportInput(scenario);
+      const state = await readAccountingModelState(ctx);
+
+      const model = modelOracleReport(state, { ...input, withdrawalFinalizationBatches: [], simulatedShareRate: 0n });
+      const actual = await handleOracleReport(input);
+
+      expect(model.postTotalPooledEther).to.equal(actual.postTotalPooledEther);
+      expect(model.postTotalShares).to.equal(actual.postTotalShares);
+      expect(model.withdrawals).to.equal(actual.withdrawals);
+      expect(model.elRewards).to.equal(actual.elRewards);
+    });
+  }
+
+  it("Should match the contract with the shares requested to burn", async () => {
+    const { lido, burner } = ctx.contracts;
+
+    const agent = await ctx.getSigner("agent");
+    await burner.connect(agent).grantRole(await burner.REQUEST_BURN_MY_STETH_ROLE(), stranger.address);
+    await lido.connect(stranger).approve(burner.address, ether("10"));
+    await burner.connect(stranger).requestBurnMyStETH(ether("10"));
+
+    const [coverShares, nonCoverShares] = await burner.getSharesRequestedToBurn();
+    const input = await getReportInput({ clDiff: ether("0.01"), sharesRequestedToBurn: coverShares + nonCoverShares });
+    const state = await readAccountingModelState(ctx);
+
+    const model = modelOracleReport(state, { ...input, withdrawalFinalizationBatches: [], simulatedShareRate: 0n });
+    const actual = await handleOracleReport(input);
+
+    expect(model.postTotalPooledEther).to.equal(actual.postTotalPooledEther);
+    expect(model.postTotalShares).to.equal(actual.postTotalShares);
+  });
+
+  it("Should match the contract with the withdrawals finalization", async () => {
+    const { lido, withdrawalQueue, oracleReportSanityChecker } = ctx.contracts;
+
+    await lido.connect(stranger).approve(withdrawalQueue.address, ether("300"));
+    await withdrawalQueue.connect(stranger).requestWithdrawals([ether("100"), ether("100"), ether("100")], stranger);
+
+    const { requestTimestampMargin } = await oracleReportSanityChecker.getOracleReportLimits();
+    await advanceChainTime(requestTimestampMargin + 1n);
+
+    const input = await getReportInput({ clDiff: ether("0.01"), elRewardsVaultBalance: ether("0.1") });
+    const state = await readAccountingModelState(ctx);
+
+    const model = modelOracleReportWithFinalization(state, input);
+    expect(model.withdrawalFinalizationBatches).to.not.be.empty;
+
+    const noWithdrawals = await handleOracleReport(input);
+    expect(model.simulatedShareRate).to.equal(
+      (noWithdrawals.postTotalPooledEther * SHARE_RATE_PRECISION) / noWithdrawals.postTotalShares,
+    );
+
+    const actual = await handleOracleReport(input, model.withdrawalFinalizationBatches, model.simulatedShareRate);
+
+    expect(model.postTotalPooledEther).to.equal(actual.postTotalPooledEther);
+    expect(model.postTotalShares).to.equal(actual.postTotalShares);
+
+    const [ethToLock, sharesToBurn] = await withdrawalQueue.prefinalize(
+      model.withdrawalFinalizationBatches,
+      model.simulatedShareRate,
+    );
+    expect(model.etherToLockOnWithdrawalQueue).to.equal(ethToLock);
+    expect(model.sharesToBurnFromWithdrawalQueue).to.equal(sharesToBurn);
+  });
+
+  it("Should model the report on the state loaded from JSON", async () => {
+    const { lido, withdrawalQueue } = ctx.contracts;
+
+    await lido.connect(stranger).approve(withdrawalQueue.address, ether("100"));
+    await withdrawalQueue.connect(stranger).requestWithdrawals([ether("100")], stranger);
+
+    const input = await getReportInput({ clDiff: ether("0.01") });
+    const state = await readAccountingModelState(ctx);
+
+    const json = serializeAccountingModelState(state);
+    const loaded = deserializeAccountingModelState(json);
+
+    expect(loaded).to.deep.equal(state);
+    expect(serializeAccountingModelState(loaded)).to.equal(json);
+
+    const model = modelOracleReport(loaded, { ...input, withdrawalFinalizationBatches: [], simulatedShareRate: 0n });
+    const actual = await handleOracleReport(input);
+
+    expect(model.postTotalPooledEther).to.equal(actual.postTotalPooledEther);
+    expect(model.postTotalShares).to.equal(actual.postTotalShares);
+  });
+});
@@ -1,18 +1,35 @@
 import { expect } from "chai";
-import { ContractTransactionReceipt, LogDescription, TransactionResponse, ZeroAddress } from "ethers";
+import { ContractTransactionReceipt, getBytes, LogDescription, TransactionResponse, ZeroAddress } from "ethers";
 import { ethers } from "hardhat";
 
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 import { setBalance } from "@nomicfoundation/hardhat-network-helpers";
 
-import { ether, impersonate, ONE_GWEI, trace, updateBalance } from "lib";
+import {
+  calcExtraDataListHash,
+  encodeExtraDataItems,
+  ether,
+  EXTRA_DATA_FORMAT_LIST,
+  impersonate,
+  ONE_GWEI,
+  packExtraDataList,
+  trace,
+  updateBalance,
+} from "lib";
 import { getProtocolContext, ProtocolContext } from "lib/protocol";
 import {
+  clampFinalizationBatches,
+  decodeReportOutcome,
+  depositBufferedEtherWithGuardians,
   finalizeWithdrawalQueue,
   getReportTimeElapsed,
   norEnsureOperators,
+  planReport,
   report,
+  requestWithdrawals,
   sdvtEnsureOperators,
+  setupGuardianCommittee,
+  waitNextAvailableReportTime,
 } from "lib/protocol/helpers";
 
 import { Snapshot } from "test/suite";
@@ -22,13 +39,9 @@ const LIMITER_PRECISION_BASE = BigInt(10 ** 9);
 const SHARE_RATE_PRECISION = BigInt(10 ** 27);
 const ONE_DAY = 86400n;
 const MAX_BASIS_POINTS = 10000n;
-const AMOUNT = ether("100");
-const MAX_DEPOSIT = 150n;
 const CURATED_MODULE_ID = 1n;
 const SIMPLE_DVT_MODULE_ID = 2n;
 
-const ZERO_HASH = new Uint8Array(32).fill(0);
-
 describe("Accounting integration", () => {
   let ctx: ProtocolContext;
 
@@ -45,8 +58,6 @@ describe("Accounting integration", () => {
 
     snapshot = await Snapshot.take();
 
-    const { lido, depositSecurityModule } = ctx.contracts;
-
     await finalizeWithdrawalQueue(ctx, stEthHolder, ethHolder);
 
     await norEnsureOperators(ctx, 3n, 5n);
@@ -54,8 +65,8 @@ describe("Accounting integration", () => {
       await sdvtEnsureOperators(ctx, 3n, 5n);
     }
 
-    const dsmSigner = await impersonate(depositSecurityModule.address, AMOUNT);
-    await lido.connect(dsmSigner).deposit(MAX_DEPOSIT, CURATED_MODULE_ID, ZERO_HASH);
+    const committee = await setupGuardianCommittee(ctx);
+    await depositBufferedEtherWithGuardians(ctx, committee, CURATED_MODULE_ID, ethHolder);
 
     await report(ctx, {
       clDiff: ether("32") * 3n, // 32 ETH * 3 validators
@@ -167,6 +178,77 @@ describe("Accounting integration", () => {
     );
   });
 
+  it("Should predict the sanity checks and clamp the report to the limits", async () => {
+    const { lido, hashConsensus } = ctx.contracts;
+
+    const rebaseAmount = (await rebaseLimitWei()) - 1n;
+
+    await waitNextAvailableReportTime(ctx);
+    const { refSlot } = await hashConsensus.getCurrentFrame();
+
+    const plan = await planReport(ctx, {
+      refSlot,
+      clDiff: rebaseAmount,
+      clAppearedValidators: 0n,
+      withdrawalVaultBalance: 0n,
+      elRewardsVaultBalance: 0n,
+      sharesRequestedToBurn: 0n,
+      simulatedShareRate: null,
+      withdrawalFinalizationBatches: [],
+    });
+
+    expect(plan.violations.map(({ check }) => check)).to.deep.equal(["annualBalanceIncrease"]);
+    expect(plan.maxClDiff).to.be.lessThan(rebaseAmount);
+
+    const { beaconBalance } = await lido.getBeaconStat();
+
+    await report(ctx, {
+      clDiff: rebaseAmount,
+      excludeVaultsBalances: true,
+      waitNextReportTime: false,
+      clampToLimits: true,
+    });
+
+    expect((await lido.getBeaconStat()).beaconBalance).to.equal(beaconBalance + plan.maxClDiff);
+  });
+
+  it("Should not finalize the requests younger than the request timestamp margin", async () => {
+    const { lido, hashConsensus, withdrawalQueue } = ctx.contracts;
+
+    await waitNextAvailableReportTime(ctx);
+    const { refSlot } = await hashConsensus.getCurrentFrame();
+
+    // The requests are made after the ref slot, so none of them passes the margin
+    await lido.connect(stEthHolder).submit(ZeroAddress, { value: ether("10") });
+    await requestWithdrawals(ctx, stEthHolder, [ether("1"), ether("1")]);
+
+    const lastFinalizedRequestId = await withdrawalQueue.getLastFinalizedRequestId();
+    const lastRequestId = await withdrawalQueue.getLastRequestId();
+
+    const plan = await planReport(ctx, {
+      refSlot,
+      clDiff: 0n,
+      clAppearedValidators: 0n,
+      withdrawalVaultBalance: 0n,
+      elRewardsVaultBalance: 0n,
+      sharesRequestedToBurn: 0n,
+      simulatedShareRate: null,
+      withdrawalFinalizationBatches: [lastRequestId],
+    });
+
+    expect(plan.lastFinalizedRequestId).to.equal(lastFinalizedRequestId);
+    expect(plan.lastFinalizableRequestId).to.equal(lastFinalizedRequestId);
+    expect(plan.violations.map(({ check }) => check)).to.deep.equal(["requestTimestampMargin"]);
+
+    expect(
+      clampFinalizationBatches([lastRequestId], plan.lastFinalizableRequestId, plan.lastFinalizedRequestId),
+    ).to.deep.equal([]);
+
+    await report(ctx, { clDiff: 0n, excludeVaultsBalances: true, waitNextReportTime: false, clampToLimits: true });
+
+    expect(await withdrawalQueue.getLastFinalizedRequestId()).to.equal(lastFinalizedRequestId);
+  });
+
   it("Should account correctly with no CL rebase", async () => {
     const { lido, accountingOracle } = ctx.contracts;
 
@@ -1082,4 +1164,90 @@ describe("Accounting integration", () => {
       expect(expectedEthBalance).to.equal(ethBalanceAfter + amountOfETHLocked, "Lido ETH balance change mismatch");
     }
   });
+
+  it("Should report exited and stuck validators derived from the staking module state", async () => {
+    const { stakingRouter } = ctx.contracts;
+
+    const moduleId = Number(CURATED_MODULE_ID);
+    const nodeOpId = 0;
+
+    const moduleSummaryBefore = await stakingRouter.getStakingModuleSummary(moduleId);
+    const nodeOpSummaryBefore = await stakingRouter.getNodeOperatorSummary(moduleId, nodeOpId);
+    expect(nodeOpSummaryBefore.totalDepositedValidators).to.be.greaterThanOrEqual(
+      nodeOpSummaryBefore.totalExitedValidators + 2n,
+      "Node operator has not enough deposited validators",
+    );
+
+    const { data, extraDataTx } = await report(ctx, {
+      clDiff: 0n,
+      excludeVaultsBalances: true,
+      validatorsDelta: [{ moduleId, nodeOpId, exited: 1, stuck: 1 }],
+    });
+
+    expect(data.stakingModuleIdsWithNewlyExitedValidators).to.deep.equal([CURATED_MODULE_ID]);
+    expect(data.numExitedValidatorsByStakingModule).to.deep.equal([moduleSummaryBefore.totalExitedValidators + 1n]);
+    expect(extraDataTx).to.not.be.undefined;
+
+    const nodeOpSummaryAfter = await stakingRouter.getNodeOperatorSummary(moduleId, nodeOpId);
+    expect(nodeOpSummaryAfter.totalExitedValidators).to.equal(nodeOpSummaryBefore.totalExitedValidators + 1n);
+    expect(nodeOpSummaryAfter.stuckValidatorsCount).to.equal(nodeOpSummaryBefore.stuckValidatorsCount + 1n);
+
+    const moduleSummaryAfter = await stakingRouter.getStakingModuleSummary(moduleId);
+    expect(moduleSummaryAfter.totalExitedValidators).to.equal(moduleSummaryBefore.totalExitedValidators + 1n);
+  });
+
+  it("Should reject the invalid extra data list before the main data is submitted", async () => {
+    const { accountingOracle } = ctx.contracts;
+
+    const extraDataList = packExtraDataList(
+      encodeExtraDataItems({
+        stuckKeys: [],
+        exitedKeys: [{ moduleId: Number(CURATED_MODULE_ID), nodeOpIds: [1, 0], keysCounts: [1, 1] }],
+      }),
+    );
+
+    await expect(
+      report(ctx, {
+        clDiff: 0n,
+        excludeVaultsBalances: true,
+        extraDataFormat: EXTRA_DATA_FORMAT_LIST,
+        extraDataHash: calcExtraDataListHash(extraDataList),
+        extraDataItemsCount: 1n,
+        extraDataList: getBytes(extraDataList),
+      }),
+    ).to.be.rejectedWith(/Extra data list doesn't pass the oracle checks: .*InvalidExtraDataSortOrder/);
+
+    expect((await accountingOracle.getProcessingState()).mainDataSubmitted).to.be.false;
+  });
+
+  it("Should decode the report outcome", async () => {
+    const { lido, locator } = ctx.contracts;
+
+    const totalPooledEtherBefore = await lido.getTotalPooledEther();
+    const treasurySharesBefore = await lido.sharesOf(await locator.treasury());
+
+    const clDiff = ether("0.01");
+    const { reportTx } = (await report(ctx, { clDiff, excludeVaultsBalances: true })) as {
+      reportTx: TransactionResponse;
+    };
+    const reportTxReceipt = (await reportTx.wait()) as ContractTransactionReceipt;
+
+    const outcome = await decodeReportOutcome(ctx, reportTxReceipt);
+    const { sharesRateBefore, sharesRateAfter } = shareRateFromEvent(getFirstEvent(reportTxReceipt, "TokenRebased"));
+
+    expect(outcome.preTotalEther).to.equal(totalPooledEtherBefore);
+    expect(outcome.postTotalEther).to.equal(await lido.getTotalPooledEther());
+    expect(outcome.preShareRate).to.equal(sharesRateBefore);
+    expect(outcome.postShareRate).to.equal(sharesRateAfter);
+    expect(outcome.aprBp).to.be.greaterThan(0n);
+    expect(outcome.clDelta).to.equal(clDiff);
+    expect(outcome.withdrawalsWithdrawn).to.equal(0n);
+    expect(outcome.elRewardsWithdrawn).to.equal(0n);
+
+    const treasurySharesMinted = (await lido.sharesOf(await locator.treasury())) - treasurySharesBefore;
+    expect(outcome.treasuryFee.shares).to.equal(treasurySharesMinted);
+
+    const modulesShares = outcome.modulesFees.reduce((sum, { shares }) => sum + shares, 0n);
+    expect(outcome.treasuryFee.shares + modulesShares).to.equal(outcome.sharesMintedAsFees);
+  });
 });
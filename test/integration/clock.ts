@@ -0,0 +1,79 @@
+import { expect } from "chai";
+
+import { getProtocolContext, ProtocolContext } from "lib/protocol";
+import {
+  advanceIntoFastLane,
+  advanceToDeadline,
+  advanceToEpoch,
+  advanceToFrameStart,
+  getConsensusTimeConfig,
+  getCurrentSlot,
+} from "lib/protocol/helpers";
+
+import { Snapshot } from "test/suite";
+
+describe("Consensus clock", () => {
+  let ctx: ProtocolContext;
+
+  let originalState: string;
+
+  before(async () => {
+    ctx = await getProtocolContext();
+  });
+
+  beforeEach(async () => (originalState = await Snapshot.take()));
+
+  afterEach(async () => await Snapshot.restore(originalState));
+
+  for (const consensusName of ["hashConsensus", "hashConsensusForVEBO"] as const) {
+    context(consensusName, () => {
+      it("Should advance to the start of a frame several frames ahead", async () => {
+        const hashConsensus = ctx.contracts[consensusName];
+        const { slotsPerFrame } = await getConsensusTimeConfig(hashConsensus);
+        const { refSlot } = await hashConsensus.getCurrentFrame();
+
+        const newRefSlot = await advanceToFrameStart(ctx, 3n, hashConsensus);
+
+        expect(newRefSlot).to.equal(refSlot + 3n * slotsPerFrame);
+        expect(await getCurrentSlot(ctx, hashConsensus)).to.equal(newRefSlot + 1n);
+      });
+
+      it("Should advance to the first slot of an epoch", async () => {
+        const hashConsensus = ctx.contracts[consensusName];
+        const { slotsPerEpoch } = await getConsensusTimeConfig(hashConsensus);
+        const epoch = (await getCurrentSlot(ctx, hashConsensus)) / slotsPerEpoch + 2n;
+
+        await advanceToEpoch(ctx, epoch, hashConsensus);
+
+        expect(await getCurrentSlot(ctx, hashConsensus)).to.equal(epoch * slotsPerEpoch);
+      });
+
+      it("Should advance to the deadline and past it", async () => {
+        const hashConsensus = ctx.contracts[consensusName];
+        const { refSlot } = await hashConsensus.getCurrentFrame();
+
+        const deadlineSlot = await advanceToDeadline(ctx, 0n, hashConsensus);
+        expect(await getCurrentSlot(ctx, hashConsensus)).to.equal(deadlineSlot);
+        expect((await hashConsensus.getCurrentFrame()).refSlot).to.equal(refSlot);
+
+        await advanceToDeadline(ctx, 1n, hashConsensus);
+        expect((await hashConsensus.getCurrentFrame()).refSlot).to.be.greaterThan(refSlot);
+      });
+
+      it("Should advance into the fast lane", async () => {
+        const hashConsensus = ctx.contracts[consensusName];
+        const { fastLaneLengthSlots } = await getConsensusTimeConfig(hashConsensus);
+        if (fastLaneLengthSlots === 0n) {
+          await expect(advanceIntoFastLane(ctx, hashConsensus)).to.be.rejectedWith("Fast lane is disabled");
+          return;
+        }
+
+        const refSlot = await advanceIntoFastLane(ctx, hashConsensus);
+        const currentSlot = await getCurrentSlot(ctx, hashConsensus);
+
+        expect(currentSlot).to.be.greaterThan(refSlot);
+        expect(currentSlot).to.be.lessThanOrEqual(refSlot + fastLaneLengthSlots);
+      });
+    });
+  }
+});
@@ -0,0 +1,52 @@
+import { expect } from "chai";
+
+import { certainAddress } from "lib";
+import { getProtocolContext, ProtocolContext, verifyDiscovery } from "lib/protocol";
+
+describe("Discovery verification", () => {
+  let ctx: ProtocolContext;
+
+  before(async () => {
+    ctx = await getProtocolContext();
+  });
+
+  const withContracts = (contracts: Partial<ProtocolContext["contracts"]>): ProtocolContext => ({
+    ...ctx,
+    contracts: { ...ctx.contracts, ...contracts },
+  });
+
+  it("Should pass on the discovered protocol", async () => {
+    await expect(verifyDiscovery(ctx)).to.be.fulfilled;
+  });
+
+  it("Should reject the address that doesn't match the locator", async () => {
+    const { lido, locator } = ctx.contracts;
+
+    await expect(verifyDiscovery(withContracts({ burner: lido }))).to.be.rejectedWith(
+      `locator.burner(): expected ${await locator.burner()}, got ${lido.address}`,
+    );
+  });
+
+  it("Should reject the contracts swapped between the roles", async () => {
+    const { hashConsensus, hashConsensusForVEBO } = ctx.contracts;
+
+    const error = await verifyDiscovery(
+      withContracts({ hashConsensus: hashConsensusForVEBO, hashConsensusForVEBO: hashConsensus }),
+    ).catch((e: Error) => e);
+
+    expect(error).to.be.instanceOf(Error);
+    expect((error as Error).message)
+      .to.include("Discovery verification failed with 2 mismatch(es)")
+      .and.include(`accountingOracle.getConsensusContract(): expected ${hashConsensus.address}`)
+      .and.include(`validatorsExitBusOracle.getConsensusContract(): expected ${hashConsensusForVEBO.address}`);
+  });
+
+  it("Should reject the address without code", async () => {
+    const address = certainAddress("discovery-verification:no-code");
+    const wstETH = { address } as unknown as ProtocolContext["contracts"]["wstETH"];
+
+    await expect(verifyDiscovery(withContracts({ wstETH }))).to.be.rejectedWith(
+      `wstETH code: expected contract, got no code at ${address}`,
+    );
+  });
+});
@@ -0,0 +1,184 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { mine } from "@nomicfoundation/hardhat-network-helpers";
+
+import { ether, updateBalance } from "lib";
+import { getProtocolContext, ProtocolContext } from "lib/protocol";
+import {
+  buildPauseIntent,
+  depositBufferedEtherWithGuardians,
+  finalizeWithdrawalQueue,
+  GuardianCommittee,
+  isPauseIntentExpired,
+  norEnsureOperators,
+  pauseDepositsAsGuardian,
+  pauseDepositsWithIntent,
+  setupGuardianCommittee,
+  signDepositAttestation,
+  unpauseDeposits,
+} from "lib/protocol/helpers";
+
+import { Snapshot } from "test/suite";
+
+const CURATED_MODULE_ID = 1n;
+
+describe("Deposit security module guardians", () => {
+  let ctx: ProtocolContext;
+
+  let stEthHolder: HardhatEthersSigner;
+  let ethHolder: HardhatEthersSigner;
+  let stranger: HardhatEthersSigner;
+
+  let committee: GuardianCommittee;
+
+  let snapshot: string;
+  let originalState: string;
+
+  before(async () => {
+    ctx = await getProtocolContext();
+
+    [stEthHolder, ethHolder, stranger] = await ethers.getSigners();
+
+    snapshot = await Snapshot.take();
+
+    const { lido } = ctx.contracts;
+
+    await finalizeWithdrawalQueue(ctx, stEthHolder, ethHolder);
+    await norEnsureOperators(ctx, 3n, 5n);
+
+    await updateBalance(stranger.address, ether("1000000"));
+    await lido.connect(stranger).submit(ethers.ZeroAddress, { value: ether("320") });
+
+    committee = await setupGuardianCommittee(ctx, { guardiansCount: 4n, quorum: 3n });
+  });
+
+  beforeEach(async () => (originalState = await Snapshot.take()));
+
+  afterEach(async () => await Snapshot.restore(originalState));
+
+  after(async () => await Snapshot.restore(snapshot));
+
+  it("Should replace the guardians with the committee", async () => {
+    const { depositSecurityModule } = ctx.contracts;
+
+    const guardians = await depositSecurityModule.getGuardians();
+
+    expect([...guardians]).to.have.members(committee.guardians.map(({ address }) => address));
+    expect(await depositSecurityModule.getGuardianQuorum()).to.equal(3n);
+  });
+
+  it("Should count the kept guardians for the quorum", async () => {
+    const { depositSecurityModule } = ctx.contracts;
+
+    // 4 guardians of the committee and 2 new ones
+    const extended = await setupGuardianCommittee(ctx, { guardiansCount: 2n, quorum: 5n, keepExistingGuardians: true });
+
+    expect(await depositSecurityModule.getGuardians()).to.have.lengthOf(6);
+    expect(await depositSecurityModule.getGuardianQuorum()).to.equal(extended.quorum);
+
+    await expect(
+      setupGuardianCommittee(ctx, { guardiansCount: 1n, quorum: 8n, keepExistingGuardians: true }),
+    ).to.be.rejectedWith("Quorum 8 can't be reached by 7 guardians");
+  });
+
+  it("Should deposit the buffered ether with the guardians attestation", async () => {
+    const { lido } = ctx.contracts;
+
+    const { depositedValidators: depositedValidatorsBefore } = await lido.getBeaconStat();
+
+    const { deposits } = await depositBufferedEtherWithGuardians(ctx, committee, CURATED_MODULE_ID, stranger);
+
+    expect(deposits).to.be.greaterThan(0n);
+    expect((await lido.getBeaconStat()).depositedValidators).to.equal(depositedValidatorsBefore + deposits);
+  });
+
+  it("Should reject the attestation without the quorum", async () => {
+    const { depositSecurityModule } = ctx.contracts;
+
+    const attestation = await signDepositAttestation(ctx, committee, CURATED_MODULE_ID, committee.quorum - 1n);
+
+    await expect(
+      depositSecurityModule
+        .connect(stranger)
+        .depositBufferedEther(
+          attestation.blockNumber,
+          attestation.blockHash,
+          attestation.depositRoot,
+          CURATED_MODULE_ID,
+          attestation.nonce,
+          "0x",
+          attestation.sortedGuardianSignatures,
+        ),
+    ).to.be.revertedWithCustomError(depositSecurityModule, "DepositNoQuorum");
+  });
+
+  it("Should reject the unsorted signatures", async () => {
+    const { depositSecurityModule } = ctx.contracts;
+
+    // Get past the min deposit block distance, so that the signatures are checked
+    await mine(await depositSecurityModule.getMinDepositBlockDistance());
+
+    const attestation = await signDepositAttestation(ctx, committee, CURATED_MODULE_ID);
+
+    await expect(
+      depositSecurityModule
+        .connect(stranger)
+        .depositBufferedEther(
+          attestation.blockNumber,
+          attestation.blockHash,
+          attestation.depositRoot,
+          CURATED_MODULE_ID,
+          attestation.nonce,
+          "0x",
+          [...attestation.sortedGuardianSignatures].reverse(),
+        ),
+    ).to.be.revertedWithCustomError(depositSecurityModule, "SignaturesNotSorted");
+  });
+
+  it("Should pause the deposits by the guardian and unpause them by the owner", async () => {
+    const { depositSecurityModule, stakingRouter } = ctx.contracts;
+
+    await pauseDepositsAsGuardian(ctx, committee.guardians[0], CURATED_MODULE_ID);
+
+    expect(await stakingRouter.getStakingModuleIsDepositsPaused(CURATED_MODULE_ID)).to.be.true;
+    expect(await depositSecurityModule.canDeposit(CURATED_MODULE_ID)).to.be.false;
+
+    await unpauseDeposits(ctx, CURATED_MODULE_ID);
+
+    expect(await stakingRouter.getStakingModuleIsActive(CURATED_MODULE_ID)).to.be.true;
+  });
+
+  it("Should pause the deposits with the relayed guardian signature", async () => {
+    const { depositSecurityModule } = ctx.contracts;
+
+    const intent = await buildPauseIntent(ctx, committee.guardians[1], CURATED_MODULE_ID);
+    const receipt = await pauseDepositsWithIntent(ctx, intent, stranger);
+
+    const [event] = ctx.getEvents(receipt, "DepositsPaused");
+    expect(event.args.guardian).to.equal(committee.guardians[1].address);
+    expect(await depositSecurityModule.canDeposit(CURATED_MODULE_ID)).to.be.false;
+  });
+
+  it("Should detect the expired pause intent before sending it", async () => {
+    const { depositSecurityModule } = ctx.contracts;
+
+    const intent = await buildPauseIntent(ctx, committee.guardians[0], CURATED_MODULE_ID);
+    const pauseIntentValidityPeriodBlocks = await depositSecurityModule.getPauseIntentValidityPeriodBlocks();
+
+    // The next block is the last one the intent is valid in
+    await mine(pauseIntentValidityPeriodBlocks - 1n);
+    expect(await isPauseIntentExpired(ctx, intent)).to.be.false;
+
+    await mine(1n);
+    expect(await isPauseIntentExpired(ctx, intent)).to.be.true;
+
+    await expect(pauseDepositsWithIntent(ctx, intent, stranger)).to.be.rejectedWith("is expired");
+
+    const { blockNumber, stakingModule } = intent.message;
+    await expect(
+      depositSecurityModule.connect(stranger).pauseDeposits(blockNumber, stakingModule, intent.signature),
+    ).to.be.revertedWithCustomError(depositSecurityModule, "PauseIntentExpired");
+  });
+});
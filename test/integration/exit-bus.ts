@@ -0,0 +1,67 @@
+import { expect } from "chai";
+import { ContractTransactionReceipt } from "ethers";
+
+import { ExitRequest } from "lib";
+import { getProtocolContext, ProtocolContext } from "lib/protocol";
+import { exitBusReport, norEnsureOperators } from "lib/protocol/helpers";
+
+import { Snapshot } from "test/suite";
+
+const CURATED_MODULE_ID = 1;
+
+describe("Validators Exit Bus", () => {
+  let ctx: ProtocolContext;
+  let snapshot: string;
+
+  before(async () => {
+    ctx = await getProtocolContext();
+
+    snapshot = await Snapshot.take();
+  });
+
+  after(async () => await Snapshot.restore(snapshot));
+
+  it("Should submit an empty exit requests report", async () => {
+    const { validatorsExitBusOracle } = ctx.contracts;
+
+    const totalRequestsBefore = await validatorsExitBusOracle.getTotalRequestsProcessed();
+
+    await exitBusReport(ctx, { requests: [] });
+
+    expect(await validatorsExitBusOracle.getTotalRequestsProcessed()).to.equal(totalRequestsBefore);
+  });
+
+  it("Should request validators exit for curated module operators", async () => {
+    const { nor, validatorsExitBusOracle } = ctx.contracts;
+
+    await norEnsureOperators(ctx, 3n, 5n);
+
+    const nodeOpIds = [0n, 1n, 2n];
+    const lastIndices = await validatorsExitBusOracle.getLastRequestedValidatorIndices(CURATED_MODULE_ID, nodeOpIds);
+
+    const requests: ExitRequest[] = [];
+    for (const [i, nodeOpId] of nodeOpIds.entries()) {
+      const valIndex = lastIndices[i] + 1n;
+      const { key } = await nor.getSigningKey(nodeOpId, 0n);
+      requests.push({
+        moduleId: CURATED_MODULE_ID,
+        nodeOpId: Number(nodeOpId),
+        valIndex: Number(valIndex),
+        valPubkey: key,
+      });
+    }
+
+    const totalRequestsBefore = await validatorsExitBusOracle.getTotalRequestsProcessed();
+
+    // requests are sorted by the helper
+    const { reportTx } = await exitBusReport(ctx, { requests: [...requests].reverse() });
+
+    const reportTxReceipt = (await reportTx.wait()) as ContractTransactionReceipt;
+    const exitRequestEvents = ctx.getEvents(reportTxReceipt, "ValidatorExitRequest");
+
+    expect(exitRequestEvents.length).to.equal(nodeOpIds.length, "Exit request events count is incorrect");
+    expect(await validatorsExitBusOracle.getTotalRequestsProcessed()).to.equal(
+      totalRequestsBefore + BigInt(nodeOpIds.length),
+    );
+  });
+});
@@ -0,0 +1,78 @@
+import { expect } from "chai";
+
+import { ether } from "lib";
+import { getProtocolContext, ProtocolContext } from "lib/protocol";
+import { fuzzProtocol, norEnsureOperators, replayFuzzActions } from "lib/protocol/helpers";
+
+import { Snapshot } from "test/suite";
+
+const FUZZ_SEED = Number(process.env.FUZZ_SEED ?? 1);
+const FUZZ_STEPS = Number(process.env.FUZZ_STEPS ?? 10);
+
+describe("Protocol fuzzing", () => {
+  let ctx: ProtocolContext;
+  let snapshot: string;
+  let originalState: string;
+
+  before(async () => {
+    ctx = await getProtocolContext();
+
+    snapshot = await Snapshot.take();
+
+    await norEnsureOperators(ctx, 3n, 5n);
+  });
+
+  beforeEach(async () => (originalState = await Snapshot.take()));
+
+  afterEach(async () => await Snapshot.restore(originalState));
+
+  after(async () => await Snapshot.restore(snapshot));
+
+  it(`Should keep the protocol invariants for ${FUZZ_STEPS} random steps (seed ${FUZZ_SEED})`, async () => {
+    await fuzzProtocol(ctx, { seed: FUZZ_SEED, steps: FUZZ_STEPS });
+  });
+
+  it("Should skip the actions reverted by the protocol", async () => {
+    const { withdrawalQueue } = ctx.contracts;
+
+    const lastRequestIdBefore = await withdrawalQueue.getLastRequestId();
+
+    // Below WithdrawalQueue.MIN_STETH_WITHDRAWAL_AMOUNT
+    const [submitRejection, withdrawalRejection] = await replayFuzzActions(ctx, [
+      { type: "submit", actor: 0, amount: 1000n },
+      { type: "requestWithdrawal", actor: 0, amount: 1n },
+    ]);
+
+    expect(submitRejection).to.be.null;
+    expect(withdrawalRejection).to.include("RequestAmountTooSmall");
+    expect(await withdrawalQueue.getLastRequestId()).to.equal(lastRequestIdBefore);
+  });
+
+  it("Should skip the deposits in the bunker mode", async () => {
+    const { withdrawalQueue } = ctx.contracts;
+
+    // The negative rebase turns the bunker mode on
+    const [reportRejection, depositRejection] = await replayFuzzActions(ctx, [
+      { type: "report", clDiff: -ether("0.001"), clAppearedValidators: 0n, elRewards: 0n, exited: [] },
+      { type: "deposit", moduleId: 1n },
+    ]);
+
+    expect(await withdrawalQueue.isBunkerModeActive()).to.be.true;
+    expect(reportRejection).to.be.null;
+    expect(depositRejection).to.equal("Lido can't deposit");
+  });
+
+  it("Should fail on the errors that are not reverts", async () => {
+    await expect(
+      replayFuzzActions(ctx, [
+        {
+          type: "report",
+          clDiff: 0n,
+          clAppearedValidators: 0n,
+          elRewards: 0n,
+          exited: [{ moduleId: 1, nodeOpId: 0, exited: -1 }],
+        },
+      ]),
+    ).to.be.rejectedWith("Exited validators count can't decrease");
+  });
+});
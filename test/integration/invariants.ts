@@ -0,0 +1,70 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { setBalance } from "@nomicfoundation/hardhat-network-helpers";
+
+import { ether, trace } from "lib";
+import { getProtocolContext, ProtocolContext } from "lib/protocol";
+import { checkProtocolInvariants, finalizeWithdrawalQueue, report } from "lib/protocol/helpers";
+
+import { Snapshot } from "test/suite";
+
+describe("Protocol invariants", () => {
+  let ctx: ProtocolContext;
+  let snapshot: string;
+  let originalState: string;
+
+  let stEthHolder: HardhatEthersSigner;
+  let ethHolder: HardhatEthersSigner;
+
+  before(async () => {
+    ctx = await getProtocolContext();
+
+    [stEthHolder, ethHolder] = await ethers.getSigners();
+
+    snapshot = await Snapshot.take();
+  });
+
+  beforeEach(async () => (originalState = await Snapshot.take()));
+
+  afterEach(async () => await Snapshot.restore(originalState));
+
+  after(async () => await Snapshot.restore(snapshot));
+
+  const holders = () => [stEthHolder.address, ethHolder.address];
+
+  it("Should hold on the discovered protocol", async () => {
+    expect(await checkProtocolInvariants(ctx, holders())).to.be.empty;
+  });
+
+  it("Should hold after the withdrawal requests and a report", async () => {
+    const { lido, withdrawalQueue } = ctx.contracts;
+
+    await finalizeWithdrawalQueue(ctx, stEthHolder, ethHolder);
+
+    const amount = ether("10");
+    const approveTx = await lido.connect(stEthHolder).approve(withdrawalQueue.address, amount);
+    await trace("lido.approve", approveTx);
+
+    const requestTx = await withdrawalQueue.connect(stEthHolder).requestWithdrawals([amount], stEthHolder);
+    await trace("withdrawalQueue.requestWithdrawals", requestTx);
+
+    expect(await checkProtocolInvariants(ctx, holders())).to.be.empty;
+
+    await report(ctx, { clDiff: ether("0.01") });
+
+    expect(await checkProtocolInvariants(ctx, holders())).to.be.empty;
+  });
+
+  it("Should detect the buffered ether not backed by the balance", async () => {
+    const { lido } = ctx.contracts;
+
+    await lido.connect(stEthHolder).submit(ethers.ZeroAddress, { value: ether("1") });
+    await setBalance(lido.address, (await lido.getBufferedEther()) - 1n);
+
+    const violations = await checkProtocolInvariants(ctx, holders());
+
+    expect(violations.map(({ name }) => name)).to.deep.equal(["lido.bufferedEther"]);
+  });
+});
@@ -0,0 +1,119 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { expect } from "chai";
+
+import { getNetworkConfig, ProtocolNetworkConfig, readProtocolConfigFile } from "lib/protocol/networks";
+import { ProtocolNetworkItems } from "lib/protocol/types";
+
+const LOCATOR = "0xC1d0b3DE6792Bf6b4b37EccdcC24e45978Cfd2Eb";
+const AGENT = "0x3e40D73EB977Dc6a537aF587D48316feE66E9C8c";
+
+describe("Protocol network config", () => {
+  let env: Record<keyof ProtocolNetworkItems, string>;
+  let dir: string;
+
+  before(async () => {
+    // Env names nobody sets, so that the process env doesn't override the tested values
+    const { env: defaultEnv } = await getNetworkConfig("mainnet-fork");
+    env = Object.fromEntries(
+      Object.keys(defaultEnv).map((key) => [key, `NETWORK_CONFIG_TEST_${key.toUpperCase()}`]),
+    ) as Record<keyof ProtocolNetworkItems, string>;
+
+    dir = mkdtempSync(join(tmpdir(), "network-config-"));
+  });
+
+  after(() => rmSync(dir, { recursive: true, force: true }));
+
+  const writeConfig = (name: string, content: string) => {
+    const file = join(dir, name);
+    writeFileSync(file, content);
+    return file;
+  };
+
+  const getDefaults = (items: Partial<ProtocolNetworkItems>) =>
+    ({
+      ...Object.fromEntries(Object.keys(env).map((key) => [key, ""])),
+      ...items,
+    }) as Record<keyof ProtocolNetworkItems, string>;
+
+  context("readProtocolConfigFile", () => {
+    it("Should read the JSON config", () => {
+      const file = writeConfig("config.json", JSON.stringify({ locator: LOCATOR, agentAddress: AGENT }));
+
+      expect(readProtocolConfigFile(file, env)).to.deep.equal({ locator: LOCATOR, agentAddress: AGENT });
+    });
+
+    it("Should read the YAML config", () => {
+      const file = writeConfig("config.yaml", `locator: "${LOCATOR}"\nagentAddress: '${AGENT}'\n`);
+
+      expect(readProtocolConfigFile(file, env)).to.deep.equal({ locator: LOCATOR, agentAddress: AGENT });
+    });
+
+    it("Should ask to quote the unquoted YAML addresses", () => {
+      const file = writeConfig("unquoted.yml", `locator: ${LOCATOR}\n`);
+
+      expect(() => readProtocolConfigFile(file, env)).to.throw(
+        `locator (${env.locator}): expected an address string, got number`,
+      );
+      expect(() => readProtocolConfigFile(file, env)).to.throw('quote the address, e.g. "0x..."');
+    });
+
+    it("Should report every malformed address and unknown item", () => {
+      const file = writeConfig(
+        "malformed.json",
+        JSON.stringify({
+          locator: "0x1234",
+          agentAddress: AGENT.toLowerCase().replace("3e40d", "3E40d"),
+          foo: LOCATOR,
+        }),
+      );
+
+      expect(() => readProtocolConfigFile(file, env))
+        .to.throw(`Invalid protocol config file ${file}`)
+        .with.property("message")
+        .that.includes(`locator (${env.locator}): 0x1234 is not a valid address`)
+        .and.includes(`agentAddress (${env.agentAddress}): invalid checksum`)
+        .and.includes("foo: unknown item");
+    });
+
+    it("Should reject the missing and unparsable files", () => {
+      expect(() => readProtocolConfigFile(join(dir, "missing.json"), env)).to.throw("doesn't exist");
+      expect(() => readProtocolConfigFile(writeConfig("broken.json", "{"), env)).to.throw(
+        "Failed to parse protocol config file",
+      );
+      expect(() => readProtocolConfigFile(writeConfig("list.json", "[]"), env)).to.throw(
+        "must contain an object of addresses",
+      );
+    });
+  });
+
+  context("ProtocolNetworkConfig.validate", () => {
+    it("Should pass with the required items set", () => {
+      const config = new ProtocolNetworkConfig(
+        env,
+        getDefaults({ locator: LOCATOR, agentAddress: AGENT, votingAddress: AGENT, easyTrackAddress: AGENT }),
+        "test",
+      );
+
+      expect(() => config.validate()).to.not.throw();
+    });
+
+    it("Should report the missing required items and the malformed addresses", () => {
+      const config = new ProtocolNetworkConfig(
+        env,
+        getDefaults({ locator: LOCATOR.toLowerCase().replace("c1d0", "C1D0"), agentAddress: AGENT, lido: "lido" }),
+        "test",
+      );
+
+      expect(() => config.validate())
+        .to.throw("Invalid protocol network config (test)")
+        .with.property("message")
+        .that.includes(`locator (${env.locator}): invalid checksum`)
+        .and.includes(`votingAddress (${env.votingAddress}): is not set`)
+        .and.includes(`easyTrackAddress (${env.easyTrackAddress}): is not set`)
+        .and.includes(`lido (${env.lido}): lido is not a valid address`);
+    });
+  });
+});
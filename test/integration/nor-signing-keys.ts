@@ -0,0 +1,194 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { DepositDataValidatorKeys, ether, FakeValidatorKeys, streccak, updateBalance, ValidatorKeys } from "lib";
+import { getProtocolContext, ProtocolContext } from "lib/protocol";
+import {
+  NOR_MANAGER_GAS_BALANCE,
+  norAddOperatorDepositDataKeys,
+  norAddOperatorKeys,
+  norEnsureOperators,
+  norUploadSigningKeys,
+} from "lib/protocol/helpers";
+
+import { Snapshot } from "test/suite";
+
+const FORK_VERSION = "0x00000000";
+const OPERATOR_ID = 0n;
+
+// Fits a few keys per transaction, so that the upload takes several batches
+const MAX_GAS_PER_TX = 1_000_000n;
+
+describe("NOR signing keys", () => {
+  let ctx: ProtocolContext;
+
+  let dir: string;
+
+  let snapshot: string;
+  let originalState: string;
+
+  before(async () => {
+    ctx = await getProtocolContext();
+
+    dir = mkdtempSync(join(tmpdir(), "nor-signing-keys-"));
+
+    snapshot = await Snapshot.take();
+
+    await norEnsureOperators(ctx, 1n, 1n);
+  });
+
+  beforeEach(async () => (originalState = await Snapshot.take()));
+
+  afterEach(async () => await Snapshot.restore(originalState));
+
+  after(async () => {
+    await Snapshot.restore(snapshot);
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const writeDepositData = async (name: string, count: number, withdrawalCredentials?: string) => {
+    const { lido } = ctx.contracts;
+
+    const keys = DepositDataValidatorKeys.generate(count, {
+      seed: streccak(name),
+      withdrawalCredentials: withdrawalCredentials ?? (await lido.getWithdrawalCredentials()),
+      forkVersion: FORK_VERSION,
+    });
+
+    const path = join(dir, `deposit_data-${name}.json`);
+    keys.toDepositDataJson(path);
+
+    return { keys, path };
+  };
+
+  const getGasSpent = async (sender: string, fromBlock: number) => {
+    let gasSpent = 0n;
+    for (let blockNumber = fromBlock + 1; blockNumber <= (await ethers.provider.getBlockNumber()); blockNumber++) {
+      const block = await ethers.provider.getBlock(blockNumber, true);
+      for (const tx of block!.prefetchedTransactions) {
+        if (tx.from.toLowerCase() === sender.toLowerCase()) {
+          gasSpent += (await tx.wait())!.fee;
+        }
+      }
+    }
+    return gasSpent;
+  };
+
+  it("Should add the keys imported from the deposit data file", async () => {
+    const { nor } = ctx.contracts;
+
+    const { keys, path } = await writeDepositData("import", 3);
+
+    const totalKeysBefore = await nor.getTotalSigningKeyCount(OPERATOR_ID);
+
+    await norAddOperatorDepositDataKeys(ctx, { operatorId: OPERATOR_ID, path, forkVersion: FORK_VERSION });
+
+    const [pubkeys, signatures] = keys.slice();
+    const stored = await nor.getSigningKeys(OPERATOR_ID, totalKeysBefore, keys.count);
+
+    expect(stored.pubkeys).to.equal(pubkeys);
+    expect(stored.signatures).to.equal(signatures);
+  });
+
+  it("Should reject the deposit data of other withdrawal credentials", async () => {
+    const { nor } = ctx.contracts;
+
+    const { path } = await writeDepositData("foreign", 2, "0x010000000000000000000000" + "11".repeat(20));
+
+    const totalKeysBefore = await nor.getTotalSigningKeyCount(OPERATOR_ID);
+
+    await expect(
+      norAddOperatorDepositDataKeys(ctx, { operatorId: OPERATOR_ID, path, forkVersion: FORK_VERSION }),
+    ).to.be.rejectedWith("Deposit data 0: withdrawal credentials");
+
+    expect(await nor.getTotalSigningKeyCount(OPERATOR_ID)).to.equal(totalKeysBefore);
+  });
+
+  it("Should upload the keys in batches as the role holder", async () => {
+    const { nor } = ctx.contracts;
+
+    const keys = new FakeValidatorKeys(16);
+    const totalKeysBefore = await nor.getTotalSigningKeyCount(OPERATOR_ID);
+
+    const { startIndex, uploadedKeys, batches } = await norUploadSigningKeys(ctx, OPERATOR_ID, keys, {
+      maxGasPerTx: MAX_GAS_PER_TX,
+    });
+
+    expect(startIndex).to.equal(totalKeysBefore);
+    expect(uploadedKeys).to.equal(16n);
+    expect(batches.length).to.be.greaterThan(1);
+    expect(batches.reduce((sum, count) => sum + count, 0n)).to.equal(16n);
+    expect(await nor.getTotalSigningKeyCount(OPERATOR_ID)).to.equal(totalKeysBefore + 16n);
+  });
+
+  it("Should upload the keys as the operator manager", async () => {
+    const { nor } = ctx.contracts;
+
+    const keys = new FakeValidatorKeys(4);
+    const totalKeysBefore = await nor.getTotalSigningKeyCount(OPERATOR_ID);
+
+    // Lower than the top-up, so that the balance is topped up and the overwrite would be noticed
+    const { rewardAddress } = await nor.getNodeOperator(OPERATOR_ID, false);
+    const managerBalanceBefore = ether("1.5");
+    await updateBalance(rewardAddress, managerBalanceBefore);
+
+    const blockBefore = await ethers.provider.getBlockNumber();
+
+    const { uploadedKeys } = await norUploadSigningKeys(ctx, OPERATOR_ID, keys, { sender: "manager" });
+
+    expect(uploadedKeys).to.equal(4n);
+
+    const gasSpent = await getGasSpent(rewardAddress, blockBefore);
+    expect(await ethers.provider.getBalance(rewardAddress)).to.equal(
+      managerBalanceBefore + NOR_MANAGER_GAS_BALANCE - gasSpent,
+    );
+
+    const [pubkeys, signatures] = keys.slice();
+    const stored = await nor.getSigningKeys(OPERATOR_ID, totalKeysBefore, keys.count);
+
+    expect(stored.pubkeys).to.equal(pubkeys);
+    expect(stored.signatures).to.equal(signatures);
+  });
+
+  it("Should resume the upload after the partial failure", async () => {
+    const { nor } = ctx.contracts;
+
+    const keys = new FakeValidatorKeys(10);
+    const startIndex = await nor.getTotalSigningKeyCount(OPERATOR_ID);
+
+    // The first batch got through before the failure
+    const firstBatch = new ValidatorKeys(keys.publicKeysList.slice(0, 3), keys.signaturesList.slice(0, 3));
+    await norAddOperatorKeys(ctx, { operatorId: OPERATOR_ID, keysToAdd: 3n, keys: firstBatch });
+
+    const { uploadedKeys } = await norUploadSigningKeys(ctx, OPERATOR_ID, keys, {
+      startIndex,
+      maxGasPerTx: MAX_GAS_PER_TX,
+    });
+
+    expect(uploadedKeys).to.equal(7n);
+
+    const [pubkeys, signatures] = keys.slice();
+    const stored = await nor.getSigningKeys(OPERATOR_ID, startIndex, keys.count);
+
+    expect(stored.pubkeys).to.equal(pubkeys);
+    expect(stored.signatures).to.equal(signatures);
+  });
+
+  it("Should not resume over the keys that don't match", async () => {
+    const { nor } = ctx.contracts;
+
+    const keys = new FakeValidatorKeys(5);
+    const startIndex = await nor.getTotalSigningKeyCount(OPERATOR_ID);
+
+    await norAddOperatorKeys(ctx, { operatorId: OPERATOR_ID, keysToAdd: 2n });
+
+    await expect(norUploadSigningKeys(ctx, OPERATOR_ID, keys, { startIndex })).to.be.rejectedWith(
+      `NOR operator ${OPERATOR_ID} key ${startIndex} doesn't match the key 0 to upload`,
+    );
+    expect(await nor.getTotalSigningKeyCount(OPERATOR_ID)).to.equal(startIndex + 2n);
+  });
+});
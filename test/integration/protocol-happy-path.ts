@@ -4,25 +4,24 @@ import { ethers } from "hardhat";
 
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 
-import { batch, ether, impersonate, log, trace, updateBalance } from "lib";
+import { batch, ether, log, trace, updateBalance } from "lib";
 import { getProtocolContext, ProtocolContext } from "lib/protocol";
 import {
+  depositBufferedEtherWithGuardians,
   finalizeWithdrawalQueue,
   norEnsureOperators,
   OracleReportOptions,
   report,
   sdvtEnsureOperators,
+  setupGuardianCommittee,
 } from "lib/protocol/helpers";
 
 import { Snapshot } from "test/suite";
 
 const AMOUNT = ether("100");
-const MAX_DEPOSIT = 150n;
 const CURATED_MODULE_ID = 1n;
 const SIMPLE_DVT_MODULE_ID = 2n;
 
-const ZERO_HASH = new Uint8Array(32).fill(0);
-
 describe("Happy Path", () => {
   let ctx: ProtocolContext;
   let snapshot: string;
@@ -79,7 +78,10 @@ describe("Happy Path", () => {
 
     if (ctx.flags.withSimpleDvtModule) {
       await sdvtEnsureOperators(ctx, 3n, 5n);
-      expect(await ctx.contracts.sdvt.getNodeOperatorsCount()).to.be.at.least(3n);
+
+      const { sdvt } = ctx.contracts;
+      expect(sdvt, "Simple DVT module").to.not.be.undefined;
+      expect(await sdvt!.getNodeOperatorsCount()).to.be.at.least(3n);
     }
   });
 
@@ -195,7 +197,6 @@ describe("Happy Path", () => {
   it("Should deposit 100 ETH to node operators", async () => {
     const { lido, withdrawalQueue } = ctx.contracts;
 
-    const { depositSecurityModule } = ctx.contracts;
     const { depositedValidators: depositedValidatorsBefore } = await lido.getBeaconStat();
     const withdrawalsUninitializedStETH = await withdrawalQueue.unfinalizedStETH();
     const depositableEther = await lido.getDepositableEther();
@@ -211,10 +212,14 @@ describe("Happy Path", () => {
       "Depositable ether": ethers.formatEther(depositableEther),
     });
 
-    const dsmSigner = await impersonate(depositSecurityModule.address, ether("100"));
+    const committee = await setupGuardianCommittee(ctx);
 
-    const depositNorTx = await lido.connect(dsmSigner).deposit(MAX_DEPOSIT, CURATED_MODULE_ID, ZERO_HASH);
-    const depositNorReceipt = await trace<ContractTransactionReceipt>("lido.deposit (Curated Module)", depositNorTx);
+    const { receipt: depositNorReceipt } = await depositBufferedEtherWithGuardians(
+      ctx,
+      committee,
+      CURATED_MODULE_ID,
+      ethHolder,
+    );
 
     const unbufferedEventNor = ctx.getEvents(depositNorReceipt, "Unbuffered")[0];
     const unbufferedAmountNor = unbufferedEventNor.args[0];
@@ -223,8 +228,12 @@ describe("Happy Path", () => {
     let expectedBufferedEtherAfterDeposit = bufferedEtherBeforeDeposit - unbufferedAmountNor;
 
     if (ctx.flags.withSimpleDvtModule) {
-      const depositSdvtTx = await lido.connect(dsmSigner).deposit(MAX_DEPOSIT, SIMPLE_DVT_MODULE_ID, ZERO_HASH);
-      const depositSdvtReceipt = await trace<ContractTransactionReceipt>("lido.deposit (Simple DVT)", depositSdvtTx);
+      const { receipt: depositSdvtReceipt } = await depositBufferedEtherWithGuardians(
+        ctx,
+        committee,
+        SIMPLE_DVT_MODULE_ID,
+        ethHolder,
+      );
 
       const unbufferedEventSdvt = ctx.getEvents(depositSdvtReceipt, "Unbuffered")[0];
       const depositedValidatorsChangedEventSdvt = ctx.getEvents(depositSdvtReceipt, "DepositedValidatorsChanged")[0];
@@ -265,7 +274,7 @@ describe("Happy Path", () => {
       stETH: ethers.formatEther(strangerBalancesBeforeRebase.stETH),
     });
 
-    const getNodeOperatorsStatus = async (registry: typeof sdvt | typeof nor) => {
+    const getNodeOperatorsStatus = async (registry: typeof nor) => {
       const totalOperators = await registry.getNodeOperatorsCount();
       let hasPenalizedOperators = false;
       let activeOperators = 0n;
@@ -289,7 +298,8 @@ describe("Happy Path", () => {
 
     let sdvtStatusLog = {};
     if (ctx.flags.withSimpleDvtModule) {
-      const sdvtStatus = await getNodeOperatorsStatus(sdvt);
+      expect(sdvt, "Simple DVT module").to.not.be.undefined;
+      const sdvtStatus = await getNodeOperatorsStatus(sdvt!);
 
       expectedBurnerTransfers += sdvtStatus.hasPenalizedOperators ? 1n : 0n;
       expectedTransfers += sdvtStatus.activeOperators;
@@ -366,7 +376,7 @@ describe("Happy Path", () => {
       expect(toSdvtTransfer?.args.toObject()).to.include(
         {
           from: ZeroAddress,
-          to: sdvt.address,
+          to: sdvt!.address,
         },
         "Transfer to SDVT",
       );
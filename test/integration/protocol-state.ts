@@ -0,0 +1,56 @@
+import { expect } from "chai";
+import { ZeroAddress } from "ethers";
+import { ethers } from "hardhat";
+
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+
+import { ether, trace, updateBalance } from "lib";
+import { getProtocolContext, ProtocolContext } from "lib/protocol";
+import { diffProtocolState, snapshotProtocolState } from "lib/protocol/helpers";
+
+import { Snapshot } from "test/suite";
+
+describe("Protocol state snapshot", () => {
+  let ctx: ProtocolContext;
+  let snapshot: string;
+
+  let stranger: HardhatEthersSigner;
+
+  before(async () => {
+    ctx = await getProtocolContext();
+
+    [, , stranger] = await ethers.getSigners();
+
+    snapshot = await Snapshot.take();
+  });
+
+  after(async () => await Snapshot.restore(snapshot));
+
+  it("Should produce a stable document", async () => {
+    const first = await snapshotProtocolState(ctx);
+    const second = await snapshotProtocolState(ctx);
+
+    expect(JSON.stringify(first)).to.equal(JSON.stringify(second));
+    expect(diffProtocolState(first, second)).to.be.empty;
+  });
+
+  it("Should diff the state around a stake", async () => {
+    const { lido } = ctx.contracts;
+
+    const amount = ether("100");
+    await updateBalance(stranger.address, ether("1000"));
+
+    const before = await snapshotProtocolState(ctx);
+
+    const tx = await lido.connect(stranger).submit(ZeroAddress, { value: amount });
+    await trace("lido.submit", tx);
+
+    const after = await snapshotProtocolState(ctx);
+    const diff = diffProtocolState(before, after);
+
+    expect(diff["lido.totalPooledEther"].delta).to.equal(amount);
+    expect(diff["lido.bufferedEther"].delta).to.equal(amount);
+    expect(diff["lido.totalShares"].delta).to.equal(await lido.getSharesByPooledEth(amount));
+    expect(diff["withdrawalQueue.lastRequestId"]).to.be.undefined;
+  });
+});
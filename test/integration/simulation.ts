@@ -0,0 +1,56 @@
+import { expect } from "chai";
+
+import { ether } from "lib";
+import { getProtocolContext, ProtocolContext } from "lib/protocol";
+import {
+  norEnsureOperators,
+  simulateDays,
+  simulationTimelineToCsv,
+  simulationTimelineToJson,
+} from "lib/protocol/helpers";
+
+import { Snapshot } from "test/suite";
+
+describe("Protocol simulation", () => {
+  let ctx: ProtocolContext;
+  let snapshot: string;
+
+  before(async () => {
+    ctx = await getProtocolContext();
+
+    snapshot = await Snapshot.take();
+
+    await norEnsureOperators(ctx, 3n, 5n);
+  });
+
+  after(async () => await Snapshot.restore(snapshot));
+
+  it("Should report once per frame and grow the share rate", async () => {
+    const { lido } = ctx.contracts;
+
+    const shareRateBefore = ((await lido.getTotalPooledEther()) * 10n ** 27n) / (await lido.getTotalShares());
+
+    const timeline = await simulateDays(ctx, {
+      days: 3n,
+      aprBp: 300n,
+      elRewardsPerDay: ether("1"),
+      withdrawalsPerDay: ether("10"),
+    });
+
+    expect(timeline.length).to.be.greaterThanOrEqual(3);
+
+    for (const [i, entry] of timeline.entries()) {
+      const previousShareRate = i > 0 ? timeline[i - 1].shareRate : shareRateBefore;
+      expect(entry.shareRate).to.be.greaterThan(previousShareRate, `share rate of frame ${i}`);
+      expect(entry.treasuryFee).to.be.greaterThan(0n, `treasury fee of frame ${i}`);
+      expect(entry.lastRequestId).to.be.greaterThanOrEqual(entry.lastFinalizedRequestId);
+    }
+
+    const csv = simulationTimelineToCsv(timeline).split("\n");
+    expect(csv.length).to.equal(timeline.length + 1);
+    expect(csv[0].split(",")).to.include("shareRate");
+
+    const json = JSON.parse(simulationTimelineToJson(timeline));
+    expect(json[0].shareRate).to.equal(timeline[0].shareRate.toString());
+  });
+});
@@ -0,0 +1,43 @@
+import { expect } from "chai";
+
+import { getProtocolContext, ProtocolContext, StakingModuleStatus } from "lib/protocol";
+
+describe("Staking modules discovery", () => {
+  let ctx: ProtocolContext;
+
+  before(async () => {
+    ctx = await getProtocolContext();
+  });
+
+  it("Should load every module registered in the staking router", async () => {
+    const { stakingRouter } = ctx.contracts;
+
+    const modules = await stakingRouter.getStakingModules();
+
+    expect(ctx.modules.length).to.equal(modules.length);
+
+    for (const [i, module] of modules.entries()) {
+      const discovered = ctx.modules[i];
+
+      expect(discovered.id).to.equal(module.id);
+      expect(discovered.name).to.equal(module.name);
+      expect(discovered.address).to.equal(module.stakingModuleAddress);
+      expect(discovered.contract.address).to.equal(module.stakingModuleAddress);
+      expect(discovered.fee).to.equal(module.stakingModuleFee);
+      expect(discovered.treasuryFee).to.equal(module.treasuryFee);
+      expect(discovered.targetShare).to.equal(module.targetShare);
+      expect(discovered.status).to.equal(Number(module.status));
+      expect(StakingModuleStatus[discovered.status]).to.not.be.undefined;
+    }
+  });
+
+  it("Should keep the legacy module aliases", async () => {
+    const [nor, sdvt] = ctx.modules;
+
+    expect(ctx.contracts.nor.address).to.equal(nor.address);
+
+    if (ctx.flags.withSimpleDvtModule) {
+      expect(ctx.contracts.sdvt?.address).to.equal(sdvt.address);
+    }
+  });
+});
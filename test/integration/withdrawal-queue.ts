@@ -0,0 +1,195 @@
+import { expect } from "chai";
+import { ZeroAddress } from "ethers";
+import { ethers } from "hardhat";
+
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+
+import { ether, getCurrentBlockTimestamp, updateBalance } from "lib";
+import { getProtocolContext, ProtocolContext } from "lib/protocol";
+import {
+  calculateFinalizationBatches,
+  claimAll,
+  decodeReportOutcome,
+  finalizeUpTo,
+  finalizeWithdrawalQueue,
+  modelFinalizationBatches,
+  readAccountingModelState,
+  report,
+  requestWithdrawals,
+  requestWithdrawalsWithPermit,
+  requestWithdrawalsWstETH,
+  requestWithdrawalsWstETHWithPermit,
+} from "lib/protocol/helpers";
+
+import { Snapshot } from "test/suite";
+
+describe("Withdrawal queue helpers", () => {
+  let ctx: ProtocolContext;
+
+  let stEthHolder: HardhatEthersSigner;
+  let ethHolder: HardhatEthersSigner;
+  let owner: HardhatEthersSigner;
+
+  let snapshot: string;
+  let originalState: string;
+
+  before(async () => {
+    ctx = await getProtocolContext();
+
+    [stEthHolder, ethHolder, owner] = await ethers.getSigners();
+
+    snapshot = await Snapshot.take();
+
+    await finalizeWithdrawalQueue(ctx, stEthHolder, ethHolder);
+
+    const { lido, wstETH } = ctx.contracts;
+
+    await updateBalance(owner.address, ether("1000"));
+    await lido.connect(owner).submit(ZeroAddress, { value: ether("100") });
+    await lido.connect(owner).approve(wstETH.address, ether("40"));
+    await wstETH.connect(owner).wrap(ether("40"));
+  });
+
+  beforeEach(async () => (originalState = await Snapshot.take()));
+
+  afterEach(async () => await Snapshot.restore(originalState));
+
+  after(async () => await Snapshot.restore(snapshot));
+
+  it("Should request withdrawals with approvals and permits", async () => {
+    const { withdrawalQueue } = ctx.contracts;
+
+    const lastRequestId = await withdrawalQueue.getLastRequestId();
+
+    const ids = [
+      ...(await requestWithdrawals(ctx, owner, [ether("1"), ether("2")])),
+      ...(await requestWithdrawalsWithPermit(ctx, owner, [ether("3")])),
+      ...(await requestWithdrawalsWstETH(ctx, owner, [ether("1")])),
+      ...(await requestWithdrawalsWstETHWithPermit(ctx, owner, [ether("2"), ether("3")])),
+    ];
+
+    expect(ids).to.deep.equal([1n, 2n, 3n, 4n, 5n, 6n].map((i) => lastRequestId + i));
+    expect([...(await withdrawalQueue.getWithdrawalRequests(owner.address))]).to.have.members(ids);
+  });
+
+  it("Should finalize the requests up to the given one and claim them", async () => {
+    const { withdrawalQueue } = ctx.contracts;
+
+    const ids = await requestWithdrawals(ctx, owner, [ether("10"), ether("10"), ether("10")]);
+
+    await finalizeUpTo(ctx, ids[1]);
+
+    expect(await withdrawalQueue.getLastFinalizedRequestId()).to.equal(ids[1]);
+
+    const firstClaim = await claimAll(ctx, owner);
+    expect(firstClaim.requestIds).to.deep.equal(ids.slice(0, 2));
+    expect(firstClaim.claimedEther).to.be.approximately(ether("20"), 10n);
+
+    await finalizeUpTo(ctx, ids[2]);
+
+    const secondClaim = await claimAll(ctx, owner);
+    expect(secondClaim.requestIds).to.deep.equal([ids[2]]);
+
+    const nothingToClaim = await claimAll(ctx, owner);
+    expect(nothingToClaim.requestIds).to.be.empty;
+    expect(await withdrawalQueue.balanceOf(owner.address)).to.equal(0n);
+  });
+
+  it("Should calculate the finalization batches plan with explicit budget and timestamp", async () => {
+    const { lido } = ctx.contracts;
+
+    const ids = await requestWithdrawals(ctx, owner, [ether("1"), ether("2"), ether("3"), ether("4")]);
+
+    const maxShareRate = ((await lido.getTotalPooledEther()) * 10n ** 27n) / (await lido.getTotalShares());
+    const maxTimestamp = await getCurrentBlockTimestamp();
+    const ethBudget = ether("6.5"); // enough for the first three requests only
+
+    const plan = await calculateFinalizationBatches(ctx, { maxShareRate, maxTimestamp, ethBudget });
+
+    expect(plan.batches[plan.batches.length - 1]).to.equal(ids[2]);
+    expect(plan.details.map(({ toRequestId }) => toRequestId)).to.deep.equal(plan.batches);
+    expect(plan.details[0].fromRequestId).to.equal(ids[0]);
+    expect(plan.details.reduce((sum, { ethToLock }) => sum + ethToLock, 0n)).to.equal(plan.ethToLock);
+    expect(plan.details.reduce((sum, { sharesToBurn }) => sum + sharesToBurn, 0n)).to.equal(plan.sharesToBurn);
+    expect(plan.remainingEthBudget).to.equal(ethBudget - plan.ethToLock);
+
+    for (const batch of plan.details) {
+      expect(batch.finalizationShareRate).to.be.lessThanOrEqual(maxShareRate);
+    }
+
+    // The off-chain model gets the same batches
+    const model = modelFinalizationBatches(await readAccountingModelState(ctx), {
+      maxShareRate,
+      maxTimestamp,
+      ethBudget,
+    });
+    expect(model.batches).to.deep.equal(plan.batches);
+    expect(model.remainingEthBudget).to.equal(plan.remainingEthBudget);
+
+    // Splitting the calculation into many calls doesn't change the result
+    const splitPlan = await calculateFinalizationBatches(ctx, {
+      maxShareRate,
+      maxTimestamp,
+      ethBudget,
+      maxRequestsPerCall: 1n,
+    });
+    expect(splitPlan.batches).to.deep.equal(plan.batches);
+    expect(splitPlan.calls).to.be.greaterThan(plan.calls);
+
+    // The requests created after the max timestamp aren't finalized
+    const earlyPlan = await calculateFinalizationBatches(ctx, { maxShareRate, maxTimestamp: 0n, ethBudget });
+    expect(earlyPlan.batches).to.be.empty;
+    expect(earlyPlan.remainingEthBudget).to.equal(ethBudget);
+  });
+
+  it("Should derive the bunker mode from the options and the slashing scenario", async () => {
+    const slashings = [{ moduleId: 1, slashedValidators: 2n, penaltyPerValidator: ether("1") }];
+
+    const { data: forcedOn } = await report(ctx, { clDiff: ether("0.01"), bunkerMode: true, dryRun: true });
+    expect(forcedOn.isBunkerMode).to.be.true;
+
+    const { data: forcedOff } = await report(ctx, { clDiff: -ether("0.01"), bunkerMode: false, dryRun: true });
+    expect(forcedOff.isBunkerMode).to.be.false;
+
+    const { data: negativeRebase } = await report(ctx, { clDiff: -ether("0.01"), dryRun: true });
+    expect(negativeRebase.isBunkerMode).to.be.true;
+
+    const { data: highPenalties } = await report(ctx, {
+      clDiff: ether("0.01"),
+      bunkerMode: { slashings },
+      dryRun: true,
+    });
+    expect(highPenalties.isBunkerMode).to.be.true;
+
+    const { data: lowPenalties } = await report(ctx, { clDiff: ether("10"), bunkerMode: { slashings }, dryRun: true });
+    expect(lowPenalties.isBunkerMode).to.be.false;
+
+    const { data: abnormalRebase } = await report(ctx, {
+      clDiff: ether("10"),
+      bunkerMode: { slashings: [], abnormalClRebase: true },
+      dryRun: true,
+    });
+    expect(abnormalRebase.isBunkerMode).to.be.true;
+  });
+
+  it("Should finalize the requests before the bunker mode start with the discounted share rate", async () => {
+    const { withdrawalQueue } = ctx.contracts;
+
+    const ids = await requestWithdrawals(ctx, owner, [ether("10"), ether("10")]);
+    await report(ctx, { clDiff: 0n, skipWithdrawals: true });
+
+    const [requestAfterReport] = await requestWithdrawals(ctx, owner, [ether("10")]);
+
+    const { reportTx } = await report(ctx, { clDiff: -ether("1") });
+    const outcome = await decodeReportOutcome(ctx, (await reportTx!.wait())!);
+
+    expect(await withdrawalQueue.isBunkerModeActive()).to.be.true;
+    expect(await withdrawalQueue.getLastFinalizedRequestId()).to.equal(ids[1]);
+    expect(await withdrawalQueue.getLastFinalizedRequestId()).to.be.lessThan(requestAfterReport);
+
+    // The requests are finalized at the post-report share rate, that is below the one they were created at
+    expect(outcome.postShareRate).to.be.lessThan(outcome.preShareRate);
+    expect(outcome.finalization!.toRequestId).to.equal(ids[1]);
+    expect(outcome.finalization!.amountOfETHLocked).to.be.lessThan(ether("20"));
+  });
+});
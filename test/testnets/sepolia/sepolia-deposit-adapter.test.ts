@@ -6,7 +6,7 @@ import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 
 import { ISepoliaDepositContract, SepoliaDepositAdapter } from "typechain-types";
 
-import { ether, findEvents } from "lib";
+import { ether, findEvents, generateDepositData, streccak } from "lib";
 
 import { Snapshot } from "test/suite";
 
@@ -27,6 +27,9 @@ describe("SepoliaDepositAdapter.sol", () => {
   const sepoliaDepositContractAddress = "0x7f02C3E3c98b133055B8B348B2Ac625669Ed295D";
   // https://docs.lido.fi/deployed-contracts/sepolia/
   const EOAddress = "0x6885E36BFcb68CB383DfE90023a462C03BCB2AE5";
+  // Lido on Sepolia, see deployed-sepolia.json
+  const lidoAddress = "0x3e3FE7dBc6B4C189E7128855dD526361c49b40Af";
+  const SEPOLIA_FORK_VERSION = "0x90000069";
   const bepoliaTokenHolder = EOAddress;
   // const log = console.log;
   const log = (...data: unknown[]) => {
@@ -86,11 +89,13 @@ describe("SepoliaDepositAdapter.sol", () => {
     });
 
     it(`call deposit on Adapter`, async () => {
-      const key = "0x90823dc2e5ab8a52a0b32883ea8451cbe4c921a42ce439f4fb306a90e9f267e463241da7274b6d44c2e4b95ddbcb0ad3";
-      const withdrawalCredentials = "0x005bfe00d82068a0c2a6687afaf969dad5a9c663cb492815a65d203885aaf993";
-      const sig =
-        "0x802899068eb4b37c95d46869947cac42b9c65b90fcb3fde3854c93ad5737800c01e9c82e174c8ed5cc18210bd60a94ea0082a850817b1dddd4096059b6846417b05094c59d3dd7f4028ed9dff395755f9905a88015b0ed200a7ec1ed60c24922";
-      const dataRoot = "0x8b09ed1d0fb3b8e3bb8398c6b77ee3d8e4f67c23cb70555167310ef02b06e5f5";
+      const lido = await ethers.getContractAt("Lido", lidoAddress);
+      const withdrawalCredentials = await lido.getWithdrawalCredentials();
+      const [{ pubkey: key, signature: sig, depositDataRoot: dataRoot }] = generateDepositData(1, {
+        seed: streccak("sepolia-deposit-adapter"),
+        withdrawalCredentials,
+        forkVersion: SEPOLIA_FORK_VERSION,
+      });
 
       const balance0ETH = await ethers.provider.getBalance(depositAdapterAddress);
       expect(balance0ETH).to.equal(0);